@@ -1,5 +1,5 @@
 import React, { useState, useRef } from 'react'
-import { Slideshow, SlideshowHandle, SlideData, TransitionStyle } from '@dylanwells/react-3d-slideshow'
+import { Slideshow, SlideshowHandle, SlideData, TransitionStyle, FadeMode } from '@dylanwells/react-3d-slideshow'
 
 const demoSlides: SlideData[] = [
   {
@@ -28,8 +28,14 @@ const transitionStyles: TransitionStyle[] = [
   'glitch',
   'cascade',
   'cube',
+  'fade',
+  'pageflip',
+  'ripple',
 ]
 
+// Styles that take aspectRatio and fullscreen; cube always uses square faces
+const aspectRatioStyles: TransitionStyle[] = ['cascade', 'glitch', 'fade', 'pageflip', 'ripple']
+
 const styles: Record<string, React.CSSProperties> = {
   container: {
     maxWidth: 1200,
@@ -178,6 +184,11 @@ function App() {
   const [glitchAberration, setGlitchAberration] = useState(0.5)
   const [glitchScanlines, setGlitchScanlines] = useState(0.5)
   const [glitchGrain, setGlitchGrain] = useState(0.5)
+  const [fadeMode, setFadeMode] = useState<FadeMode>('dissolve')
+  const [fadeColor, setFadeColor] = useState('#000000')
+  const [rippleAmplitude, setRippleAmplitude] = useState(0.5)
+  const [rippleFrequency, setRippleFrequency] = useState(12)
+  const [rippleOrigin, setRippleOrigin] = useState<'center' | 'pointer'>('pointer')
   const [fullscreen, setFullscreen] = useState(false)
   const [cascadeMinTiles, setCascadeMinTiles] = useState(15)
   const [autoPlayInterval, setAutoPlayInterval] = useState(3000)
@@ -218,7 +229,7 @@ function App() {
             ))}
           </select>
 
-          {(selectedStyle === 'cascade' || selectedStyle === 'glitch') && (
+          {aspectRatioStyles.includes(selectedStyle) && (
             <>
               <span style={styles.label}>Aspect Ratio:</span>
               <select
@@ -307,7 +318,68 @@ function App() {
             </>
           )}
 
-          {(selectedStyle === 'cascade' || selectedStyle === 'glitch') && (
+          {selectedStyle === 'fade' && (
+            <>
+              <span style={styles.label}>Fade Mode:</span>
+              <select
+                style={styles.select}
+                value={fadeMode}
+                onChange={(e) => setFadeMode(e.target.value as FadeMode)}
+              >
+                <option value="dissolve">Dissolve</option>
+                <option value="dip">Dip to Colour</option>
+                <option value="noise">Noise</option>
+              </select>
+
+              {fadeMode === 'dip' && (
+                <input
+                  type="color"
+                  value={fadeColor}
+                  onChange={(e) => setFadeColor(e.target.value)}
+                />
+              )}
+            </>
+          )}
+
+          {selectedStyle === 'ripple' && (
+            <>
+              <span style={styles.label}>Amplitude:</span>
+              <input
+                type="range"
+                style={{ ...styles.input, width: 120 }}
+                value={rippleAmplitude}
+                min={0}
+                max={1}
+                step={0.1}
+                onChange={(e) => setRippleAmplitude(Number(e.target.value))}
+              />
+              <span style={{ ...styles.label, marginLeft: 0 }}>{Math.round(rippleAmplitude * 100)}%</span>
+
+              <span style={styles.label}>Frequency:</span>
+              <input
+                type="range"
+                style={{ ...styles.input, width: 120 }}
+                value={rippleFrequency}
+                min={2}
+                max={30}
+                step={1}
+                onChange={(e) => setRippleFrequency(Number(e.target.value))}
+              />
+              <span style={{ ...styles.label, marginLeft: 0 }}>{rippleFrequency}</span>
+
+              <span style={styles.label}>Origin:</span>
+              <select
+                style={styles.select}
+                value={rippleOrigin}
+                onChange={(e) => setRippleOrigin(e.target.value as 'center' | 'pointer')}
+              >
+                <option value="pointer">Pointer</option>
+                <option value="center">Center</option>
+              </select>
+            </>
+          )}
+
+          {aspectRatioStyles.includes(selectedStyle) && (
             <label style={styles.checkbox}>
               <input
                 type="checkbox"
@@ -386,6 +458,11 @@ function App() {
             glitchAberration={glitchAberration}
             glitchScanlines={glitchScanlines}
             glitchGrain={glitchGrain}
+            fadeMode={fadeMode}
+            fadeColor={fadeColor}
+            rippleAmplitude={rippleAmplitude}
+            rippleFrequency={rippleFrequency}
+            rippleOrigin={rippleOrigin}
             fullscreen={fullscreen}
           />
         </div>
@@ -393,7 +470,7 @@ function App() {
         <div style={styles.info}>
           Current Slide: {currentSlide + 1} / {demoSlides.length} |
           Style: <span style={styles.code}>{selectedStyle}</span>
-          {(selectedStyle === 'cascade' || selectedStyle === 'glitch') && (
+          {aspectRatioStyles.includes(selectedStyle) && (
             <> | Aspect: <span style={styles.code}>{aspectRatio}</span></>
           )}
           {selectedStyle === 'cascade' && (
@@ -402,6 +479,12 @@ function App() {
           {selectedStyle === 'cube' && (
             <> | Duration: <span style={styles.code}>{cubeTransitionDuration}ms</span></>
           )}
+          {selectedStyle === 'fade' && (
+            <> | Mode: <span style={styles.code}>{fadeMode}</span></>
+          )}
+          {selectedStyle === 'ripple' && (
+            <> | Origin: <span style={styles.code}>{rippleOrigin}</span></>
+          )}
           {selectedStyle === 'glitch' && (
             <> | Aberration: <span style={styles.code}>{Math.round(glitchAberration * 100)}%</span></>
           )}
@@ -0,0 +1,93 @@
+import React, { useEffect, useRef } from 'react'
+import { AutoPlayProgressProps } from '../types'
+
+const RING_STROKE = 2
+
+const styles: Record<string, React.CSSProperties> = {
+  bar: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    height: 3,
+    background: 'rgba(255, 255, 255, 0.2)',
+    pointerEvents: 'none',
+    zIndex: 10,
+  },
+  barFill: {
+    height: '100%',
+    transformOrigin: 'left center',
+    transform: 'scaleX(0)',
+  },
+  ring: {
+    position: 'absolute',
+    top: '50%',
+    left: '50%',
+    transform: 'translate(-50%, -50%) rotate(-90deg)',
+    pointerEvents: 'none',
+  },
+}
+
+export function AutoPlayProgress({
+  getProgress,
+  variant = 'bar',
+  size = 20,
+  color = 'rgba(255, 255, 255, 0.9)',
+}: AutoPlayProgressProps) {
+  const fillRef = useRef<HTMLDivElement>(null)
+  const ringRef = useRef<SVGCircleElement>(null)
+  const getProgressRef = useRef(getProgress)
+  getProgressRef.current = getProgress
+
+  const radius = (size - RING_STROKE) / 2
+  const circumference = 2 * Math.PI * radius
+
+  // Update the DOM every frame directly instead of re-rendering
+  useEffect(() => {
+    let frame: number
+
+    const update = () => {
+      const progress = Math.min(Math.max(getProgressRef.current(), 0), 1)
+      if (fillRef.current) {
+        fillRef.current.style.transform = `scaleX(${progress})`
+      }
+      if (ringRef.current) {
+        ringRef.current.style.strokeDashoffset = String(circumference * (1 - progress))
+      }
+      frame = requestAnimationFrame(update)
+    }
+    update()
+
+    return () => cancelAnimationFrame(frame)
+  }, [circumference])
+
+  if (variant === 'ring') {
+    return (
+      <svg
+        className="r3dss__progress r3dss__progress--ring"
+        width={size}
+        height={size}
+        style={styles.ring}
+        aria-hidden="true"
+      >
+        <circle
+          ref={ringRef}
+          cx={size / 2}
+          cy={size / 2}
+          r={radius}
+          fill="none"
+          stroke={color}
+          strokeWidth={RING_STROKE}
+          strokeDasharray={circumference}
+          strokeDashoffset={circumference}
+        />
+      </svg>
+    )
+  }
+
+  return (
+    <div className="r3dss__progress r3dss__progress--bar" style={styles.bar} aria-hidden="true">
+      <div ref={fillRef} style={{ ...styles.barFill, background: color }} />
+    </div>
+  )
+}
@@ -58,6 +58,15 @@ const styles: Record<string, React.CSSProperties> = {
     transform: 'scale(1.1)',
     boxShadow: '0 4px 12px rgba(0, 0, 0, 0.25)',
   },
+  fullscreenButton: {
+    position: 'absolute',
+    top: 10,
+    right: 10,
+    width: 36,
+    height: 36,
+    fontSize: 16,
+    zIndex: 10,
+  },
   buttonDisabled: {
     opacity: 0.3,
     cursor: 'not-allowed',
@@ -72,13 +81,21 @@ function DefaultNextButton() {
   return <span style={{ paddingLeft: 4 }}>&#9654;</span>
 }
 
+function DefaultFullscreenButton({ isFullscreen }: { isFullscreen: boolean }) {
+  return <span aria-hidden="true">{isFullscreen ? '\u2716' : '\u26F6'}</span>
+}
+
 export function Controls({
   onNext,
   onPrev,
   canGoNext,
   canGoPrev,
+  showNavigation = true,
   prevButton,
   nextButton,
+  fullscreenButton,
+  isFullscreen = false,
+  onToggleFullscreen,
   focusRingStyles,
 }: ControlsProps) {
   const showPrev = prevButton !== null
@@ -87,6 +104,9 @@ export function Controls({
   const isDefaultNext = nextButton === undefined
   const [prevHovered, setPrevHovered] = useState(false)
   const [nextHovered, setNextHovered] = useState(false)
+  const [fullscreenHovered, setFullscreenHovered] = useState(false)
+  const showFullscreen = !!onToggleFullscreen && fullscreenButton !== null
+  const isDefaultFullscreen = fullscreenButton === undefined
 
   const focusStyles = useMemo(
     () => buildFocusStyles(focusRingStyles),
@@ -96,50 +116,70 @@ export function Controls({
   return (
     <>
       <style>{focusStyles}</style>
-      <div
-        className="r3dss__controls"
-        role="group"
-        aria-label="Slideshow controls"
-        style={styles.container}
-      >
-        {showPrev && (
-          <button
-            type="button"
-            className={`r3dss__control r3dss__control--prev ${!canGoPrev ? 'r3dss__control--disabled' : ''} ${prevHovered && canGoPrev && isDefaultPrev ? 'r3dss__control--hovered' : ''} ${!isDefaultPrev ? 'r3dss__control--custom' : ''}`}
-            style={{
-              ...(isDefaultPrev ? styles.button : styles.customButton),
-              ...(prevHovered && canGoPrev && isDefaultPrev ? styles.buttonHovered : {}),
-              ...(canGoPrev ? {} : styles.buttonDisabled),
-            }}
-            onClick={onPrev}
-            onMouseEnter={() => setPrevHovered(true)}
-            onMouseLeave={() => setPrevHovered(false)}
-            disabled={!canGoPrev}
-            aria-label="Previous slide"
-          >
-            {prevButton ?? <DefaultPrevButton />}
-          </button>
-        )}
-        {!showPrev && <div className="r3dss__control-spacer" />}
-        {showNext && (
-          <button
-            type="button"
-            className={`r3dss__control r3dss__control--next ${!canGoNext ? 'r3dss__control--disabled' : ''} ${nextHovered && canGoNext && isDefaultNext ? 'r3dss__control--hovered' : ''} ${!isDefaultNext ? 'r3dss__control--custom' : ''}`}
-            style={{
-              ...(isDefaultNext ? styles.button : styles.customButton),
-              ...(nextHovered && canGoNext && isDefaultNext ? styles.buttonHovered : {}),
-              ...(canGoNext ? {} : styles.buttonDisabled),
-            }}
-            onClick={onNext}
-            onMouseEnter={() => setNextHovered(true)}
-            onMouseLeave={() => setNextHovered(false)}
-            disabled={!canGoNext}
-            aria-label="Next slide"
-          >
-            {nextButton ?? <DefaultNextButton />}
-          </button>
-        )}
-      </div>
+      {showNavigation && (
+        <div
+          className="r3dss__controls"
+          role="group"
+          aria-label="Slideshow controls"
+          style={styles.container}
+        >
+          {showPrev && (
+            <button
+              type="button"
+              className={`r3dss__control r3dss__control--prev ${!canGoPrev ? 'r3dss__control--disabled' : ''} ${prevHovered && canGoPrev && isDefaultPrev ? 'r3dss__control--hovered' : ''} ${!isDefaultPrev ? 'r3dss__control--custom' : ''}`}
+              style={{
+                ...(isDefaultPrev ? styles.button : styles.customButton),
+                ...(prevHovered && canGoPrev && isDefaultPrev ? styles.buttonHovered : {}),
+                ...(canGoPrev ? {} : styles.buttonDisabled),
+              }}
+              onClick={onPrev}
+              onMouseEnter={() => setPrevHovered(true)}
+              onMouseLeave={() => setPrevHovered(false)}
+              disabled={!canGoPrev}
+              aria-label="Previous slide"
+            >
+              {prevButton ?? <DefaultPrevButton />}
+            </button>
+          )}
+          {!showPrev && <div className="r3dss__control-spacer" />}
+          {showNext && (
+            <button
+              type="button"
+              className={`r3dss__control r3dss__control--next ${!canGoNext ? 'r3dss__control--disabled' : ''} ${nextHovered && canGoNext && isDefaultNext ? 'r3dss__control--hovered' : ''} ${!isDefaultNext ? 'r3dss__control--custom' : ''}`}
+              style={{
+                ...(isDefaultNext ? styles.button : styles.customButton),
+                ...(nextHovered && canGoNext && isDefaultNext ? styles.buttonHovered : {}),
+                ...(canGoNext ? {} : styles.buttonDisabled),
+              }}
+              onClick={onNext}
+              onMouseEnter={() => setNextHovered(true)}
+              onMouseLeave={() => setNextHovered(false)}
+              disabled={!canGoNext}
+              aria-label="Next slide"
+            >
+              {nextButton ?? <DefaultNextButton />}
+            </button>
+          )}
+        </div>
+      )}
+      {showFullscreen && (
+        <button
+          type="button"
+          className={`r3dss__control r3dss__control--fullscreen ${isFullscreen ? 'r3dss__control--active' : ''} ${fullscreenHovered && isDefaultFullscreen ? 'r3dss__control--hovered' : ''} ${!isDefaultFullscreen ? 'r3dss__control--custom' : ''}`}
+          style={{
+            ...(isDefaultFullscreen ? styles.button : styles.customButton),
+            ...styles.fullscreenButton,
+            ...(fullscreenHovered && isDefaultFullscreen ? styles.buttonHovered : {}),
+          }}
+          onClick={onToggleFullscreen}
+          onMouseEnter={() => setFullscreenHovered(true)}
+          onMouseLeave={() => setFullscreenHovered(false)}
+          aria-label={isFullscreen ? 'Exit fullscreen' : 'Enter fullscreen'}
+          aria-pressed={isFullscreen}
+        >
+          {fullscreenButton ?? <DefaultFullscreenButton isFullscreen={isFullscreen} />}
+        </button>
+      )}
     </>
   )
 }
@@ -34,6 +34,7 @@ const styles: Record<string, React.CSSProperties> = {
     background: 'transparent',
     cursor: 'pointer',
     padding: 0,
+    position: 'relative',
     transition: 'all 0.2s ease',
   },
   dotActive: {
@@ -42,7 +43,14 @@ const styles: Record<string, React.CSSProperties> = {
   },
 }
 
-export function Indicators({ total, current, onSelect, renderIndicator, focusRingStyles }: IndicatorsProps) {
+export function Indicators({
+  total,
+  current,
+  onSelect,
+  renderIndicator,
+  activeOverlay,
+  focusRingStyles,
+}: IndicatorsProps) {
   const focusStyles = useMemo(
     () => buildFocusStyles(focusRingStyles),
     [focusRingStyles]
@@ -71,9 +79,10 @@ export function Indicators({ total, current, onSelect, renderIndicator, focusRin
                 aria-label={`Slide ${i + 1}`}
                 aria-selected={isActive}
                 tabIndex={isActive ? 0 : -1}
-                style={{ background: 'none', border: 'none', padding: 0, cursor: 'pointer' }}
+                style={{ background: 'none', border: 'none', padding: 0, cursor: 'pointer', position: 'relative' }}
               >
                 {renderIndicator(i, isActive)}
+                {isActive && activeOverlay}
               </button>
             )
           }
@@ -92,7 +101,9 @@ export function Indicators({ total, current, onSelect, renderIndicator, focusRin
               aria-label={`Slide ${i + 1}`}
               aria-selected={isActive}
               tabIndex={isActive ? 0 : -1}
-            />
+            >
+              {isActive && activeOverlay}
+            </button>
           )
         })}
       </div>
@@ -1,10 +1,25 @@
-import { Suspense } from 'react'
-import { SlideData, TransitionStyle } from '../types'
+import { Suspense, MutableRefObject } from 'react'
+import {
+  SlideData,
+  SlideLoadInfo,
+  TransitionStyle,
+  TransitionComponent,
+  PreloadStrategy,
+  JumpBehavior,
+  ScrubState,
+  FadeMode,
+  RippleOrigin,
+} from '../types'
 import {
   CascadeTransition,
   CubeTransition,
   GlitchTransition,
+  FadeTransition,
+  PageFlipTransition,
+  RippleTransition,
+  getTransition,
 } from '../transitions'
+import { useSlideTextures } from '../hooks'
 
 interface SceneProps {
   slides: SlideData[]
@@ -12,13 +27,31 @@ interface SceneProps {
   transitionDuration: number
   style: TransitionStyle
   direction: 'next' | 'prev'
+  animate?: boolean
+  jumpBehavior?: JumpBehavior
+  scrub?: MutableRefObject<ScrubState | null>
   cascadeMinTiles?: number
   aspectRatio?: number
   glitchAberration?: number
   glitchScanlines?: number
   glitchGrain?: number
+  glitchSafeMode?: boolean
+  fadeMode?: FadeMode
+  fadeColor?: string
+  rippleAmplitude?: number
+  rippleFrequency?: number
+  rippleOrigin?: RippleOrigin
   fullscreen?: boolean
+  /** Crossfade instead of the chosen style, including custom transitions */
+  reducedMotion?: boolean
+  transitions?: Record<string, TransitionComponent>
+  preload?: PreloadStrategy
+  onSlideLoad?: (slide: SlideData, index: number, info: SlideLoadInfo) => void
+  onSlideLoadError?: (slide: SlideData, index: number, error: Error) => void
   onReady?: () => void
+  onTransitionStart?: (from: number, to: number, direction: 'next' | 'prev') => void
+  onTransitionProgress?: (progress: number) => void
+  onTransitionEnd?: (from: number, to: number) => void
 }
 
 function LoadingFallback() {
@@ -36,21 +69,70 @@ export function Scene({
   transitionDuration,
   style,
   direction,
+  animate = true,
+  jumpBehavior = 'direct',
+  scrub,
   cascadeMinTiles = 10,
   aspectRatio = 3 / 2,
   glitchAberration = 0.5,
   glitchScanlines = 0.5,
   glitchGrain = 0.5,
+  glitchSafeMode = true,
+  fadeMode = 'dissolve',
+  fadeColor = '#000000',
+  rippleAmplitude = 0.5,
+  rippleFrequency = 12,
+  rippleOrigin = 'center',
   fullscreen = false,
+  reducedMotion = false,
+  transitions,
+  preload = 'eager',
+  onSlideLoad,
+  onSlideLoadError,
   onReady,
+  onTransitionStart,
+  onTransitionProgress,
+  onTransitionEnd,
 }: SceneProps) {
+  // Textures live here rather than in each transition so switching style
+  // reuses what's already loaded. Cube faces are square, so lay content out at 1:1
+  const { textures, loadStates } = useSlideTextures({
+    slides,
+    currentIndex,
+    preload,
+    contentAspectRatio: style === 'cube' && !reducedMotion ? 1 : aspectRatio,
+    onSlideLoad,
+    onSlideLoadError,
+  })
+
   const renderTransition = () => {
     const props = {
       slides,
       currentIndex,
       transitionDuration,
       direction,
+      animate,
+      jumpBehavior,
+      scrub,
+      textures,
+      loadStates,
+      aspectRatio,
+      fullscreen,
       onReady,
+      onTransitionStart,
+      onTransitionProgress,
+      onTransitionEnd,
+    }
+
+    // Fade straight to the target rather than through every slide in between
+    if (reducedMotion) {
+      return <FadeTransition {...props} jumpBehavior="direct" mode={fadeMode} color={fadeColor} />
+    }
+
+    // Custom transitions take precedence so built-in styles can be overridden
+    const CustomTransition = transitions?.[style] ?? getTransition(style)
+    if (CustomTransition) {
+      return <CustomTransition {...props} />
     }
 
     switch (style) {
@@ -59,16 +141,27 @@ export function Scene({
           <CascadeTransition
             {...props}
             minTiles={cascadeMinTiles}
-            aspectRatio={aspectRatio}
-            fullscreen={fullscreen}
           />
         )
       case 'cube':
-        return <CubeTransition {...props} aspectRatio={aspectRatio} />
+        return <CubeTransition {...props} />
+      case 'fade':
+        return <FadeTransition {...props} mode={fadeMode} color={fadeColor} />
+      case 'pageflip':
+        return <PageFlipTransition {...props} />
+      case 'ripple':
+        return (
+          <RippleTransition
+            {...props}
+            amplitude={rippleAmplitude}
+            frequency={rippleFrequency}
+            origin={rippleOrigin}
+          />
+        )
       case 'glitch':
-        return <GlitchTransition {...props} aspectRatio={aspectRatio} aberrationIntensity={glitchAberration} scanlinesIntensity={glitchScanlines} grainIntensity={glitchGrain} fullscreen={fullscreen} />
+        return <GlitchTransition {...props} aberrationIntensity={glitchAberration} scanlinesIntensity={glitchScanlines} grainIntensity={glitchGrain} safeMode={glitchSafeMode} />
       default:
-        return <CascadeTransition {...props} minTiles={cascadeMinTiles} aspectRatio={aspectRatio} fullscreen={fullscreen} />
+        return <CascadeTransition {...props} minTiles={cascadeMinTiles} />
     }
   }
 
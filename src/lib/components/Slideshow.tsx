@@ -1,10 +1,24 @@
-import React, { forwardRef, useImperativeHandle, useMemo, useState, useCallback, useEffect } from 'react'
+import React, { forwardRef, useImperativeHandle, useMemo, useState, useCallback, useEffect, useRef } from 'react'
 import { Canvas } from '@react-three/fiber'
 import { SlideshowProps, SlideshowHandle } from '../types'
-import { useSlideshow, useSwipe, useKeyboard } from '../hooks'
+import {
+  useSlideshow,
+  useSwipe,
+  useScrub,
+  useKeyboard,
+  useWheel,
+  useFullscreen,
+  useVisibility,
+  useReducedMotion,
+  isFullscreenSupported,
+  useUrlSync,
+  getSlideIndexFromUrl,
+} from '../hooks'
 import { Scene } from './Scene'
 import { Controls } from './Controls'
 import { Indicators } from './Indicators'
+import { Thumbnails } from './Thumbnails'
+import { AutoPlayProgress } from './AutoPlayProgress'
 import { LoadingSpinner } from './LoadingSpinner'
 import { FallbackSlideshow } from './FallbackSlideshow'
 import { isWebGLSupported } from '../utils/webgl'
@@ -15,19 +29,34 @@ const defaultProps: Partial<SlideshowProps> = {
   autoPlayInterval: 5000,
   showControls: true,
   showIndicators: true,
+  indicatorMode: 'dots',
+  thumbnailOrientation: 'horizontal',
   loop: true,
   transitionDuration: 800,
   width: '100%',
   height: 400,
   initialSlide: 0,
   enableSwipe: true,
+  enableScrub: false,
   enableKeyboard: true,
+  enableWheel: false,
+  wheelAxis: 'both',
   pauseOnHover: true,
+  pauseWhenHidden: true,
+  reducedMotion: 'auto',
   cascadeMinTiles: 10,
   aspectRatio: 3 / 2,
   glitchAberration: 0.5,
   glitchScanlines: 0.5,
   glitchGrain: 0.5,
+  glitchSafeMode: true,
+  fadeMode: 'dissolve',
+  fadeColor: '#000000',
+  rippleAmplitude: 0.5,
+  rippleFrequency: 12,
+  rippleOrigin: 'center',
+  preload: 'eager',
+  jumpBehavior: 'direct',
 }
 
 export const Slideshow = forwardRef<SlideshowHandle, SlideshowProps>(
@@ -37,27 +66,55 @@ export const Slideshow = forwardRef<SlideshowHandle, SlideshowProps>(
       style = defaultProps.style!,
       autoPlay = defaultProps.autoPlay,
       autoPlayInterval = defaultProps.autoPlayInterval,
+      autoPlayProgress,
       showControls = defaultProps.showControls,
       showIndicators = defaultProps.showIndicators,
+      indicatorMode = defaultProps.indicatorMode,
+      thumbnailOrientation = defaultProps.thumbnailOrientation,
       loop = defaultProps.loop,
       transitionDuration = defaultProps.transitionDuration!,
       width = defaultProps.width,
       height = defaultProps.height,
       className,
       onSlideChange,
+      onBeforeSlideChange,
+      onTransitionStart,
+      onTransitionProgress,
+      onTransitionEnd,
+      onSlideLoad,
+      onSlideLoadError,
       initialSlide = defaultProps.initialSlide,
+      currentIndex: controlledIndex,
+      syncWithUrl = false,
       enableSwipe = defaultProps.enableSwipe,
+      enableScrub = defaultProps.enableScrub,
       enableKeyboard = defaultProps.enableKeyboard,
+      keyMap,
+      enableWheel = defaultProps.enableWheel,
+      wheelAxis = defaultProps.wheelAxis,
       pauseOnHover = defaultProps.pauseOnHover,
+      pauseWhenHidden = defaultProps.pauseWhenHidden,
+      reducedMotion = defaultProps.reducedMotion,
       cascadeMinTiles = defaultProps.cascadeMinTiles,
       aspectRatio = defaultProps.aspectRatio,
       glitchAberration = defaultProps.glitchAberration,
       glitchScanlines = defaultProps.glitchScanlines,
       glitchGrain = defaultProps.glitchGrain,
+      glitchSafeMode = defaultProps.glitchSafeMode,
+      fadeMode = defaultProps.fadeMode,
+      fadeColor = defaultProps.fadeColor,
+      rippleAmplitude = defaultProps.rippleAmplitude,
+      rippleFrequency = defaultProps.rippleFrequency,
+      rippleOrigin = defaultProps.rippleOrigin,
       fullscreen = false,
+      onFullscreenChange,
+      transitions,
+      preload = defaultProps.preload,
+      jumpBehavior = defaultProps.jumpBehavior,
       loadingSpinner,
       prevButton,
       nextButton,
+      fullscreenButton,
       renderIndicator,
       ariaLabel = 'Image slideshow',
       getSlideAriaLabel,
@@ -66,10 +123,29 @@ export const Slideshow = forwardRef<SlideshowHandle, SlideshowProps>(
       focusRingStyles,
     } = props
 
+    const containerRef = useRef<HTMLDivElement>(null)
     const [webglAvailable, setWebglAvailable] = useState(true)
+    const [fullscreenAvailable, setFullscreenAvailable] = useState(false)
     const [isLoading, setIsLoading] = useState(true)
     const handleReady = useCallback(() => setIsLoading(false), [])
 
+    // Read through the ref handle, so a ref avoids re-rendering every transition
+    const isTransitioningRef = useRef(false)
+    const handleTransitionStart = useCallback(
+      (from: number, to: number, transitionDirection: 'next' | 'prev') => {
+        isTransitioningRef.current = true
+        onTransitionStart?.(from, to, transitionDirection)
+      },
+      [onTransitionStart]
+    )
+    const handleTransitionEnd = useCallback(
+      (from: number, to: number) => {
+        isTransitioningRef.current = false
+        onTransitionEnd?.(from, to)
+      },
+      [onTransitionEnd]
+    )
+
     useEffect(() => {
       const supported = isWebGLSupported()
       setWebglAvailable(supported)
@@ -79,50 +155,150 @@ export const Slideshow = forwardRef<SlideshowHandle, SlideshowProps>(
       }
     }, [onWebGLUnsupported])
 
+    useEffect(() => {
+      setFullscreenAvailable(isFullscreenSupported())
+    }, [])
+
+    const {
+      isFullscreen,
+      enter: enterFullscreen,
+      exit: exitFullscreen,
+      toggle: toggleFullscreen,
+    } = useFullscreen({ target: containerRef, onChange: onFullscreenChange })
+
+    // The browser may refuse, e.g. when the request doesn't come from a user gesture
+    const handleToggleFullscreen = useCallback(() => {
+      toggleFullscreen().catch(() => {})
+    }, [toggleFullscreen])
+
     const defaultGetSlideAriaLabel = useCallback(
       (index: number, total: number) => `Slide ${index + 1} of ${total}`,
       []
     )
     const slideAriaLabel = getSlideAriaLabel || defaultGetSlideAriaLabel
 
+    const urlSyncOptions = typeof syncWithUrl === 'object' ? syncWithUrl : undefined
+
+    // Deep links pick the first slide; read once like initialSlide
+    const [startSlide] = useState(() => {
+      const urlIndex = syncWithUrl ? getSlideIndexFromUrl(slides, urlSyncOptions) : null
+      return urlIndex ?? initialSlide
+    })
+
+    // Off-screen or in a background tab, hold autoplay and stop rendering frames
+    const isVisible = useVisibility({
+      target: containerRef,
+      enabled: pauseWhenHidden && slides.length > 0,
+    })
+
+    // Calm everything down for viewers who ask for less motion
+    const isReducedMotion = useReducedMotion(reducedMotion)
+
     const {
       currentIndex,
       direction,
+      animate,
       next,
       prev,
       goTo,
       pause,
       resume,
+      play,
+      stop,
+      togglePlay,
+      isPlaying,
+      autoPlayDuration,
+      getAutoPlayElapsed,
       canGoNext,
       canGoPrev,
     } = useSlideshow({
       slides,
-      initialSlide,
-      autoPlay,
+      currentIndex: controlledIndex,
+      initialSlide: startSlide,
+      // Viewers can still start autoplay with Space or the ref's play()
+      autoPlay: autoPlay && !isReducedMotion,
       autoPlayInterval,
       loop,
       pauseOnHover,
+      suspended: !isVisible,
       onSlideChange,
+      onBeforeSlideChange,
+    })
+
+    const getAutoPlayProgress = useCallback(
+      () => getAutoPlayElapsed() / autoPlayDuration,
+      [getAutoPlayElapsed, autoPlayDuration]
+    )
+    const showDots = showIndicators && slides.length > 1 && indicatorMode === 'dots'
+    const showProgress = !!autoPlayProgress && isPlaying && slides.length > 1
+    // Without dots to go around, the ring falls back to a bar
+    const progressVariant = autoPlayProgress === 'ring' && showDots ? 'ring' : 'bar'
+
+    // A full drag across the slideshow plays a whole transition
+    const getDragWidth = useCallback(() => containerRef.current?.clientWidth ?? 0, [])
+    const canStartScrub = useCallback(() => !isTransitioningRef.current, [])
+    const handleScrubCommit = useCallback(
+      (scrubDirection: 'next' | 'prev') => (scrubDirection === 'next' ? next() : prev()),
+      [next, prev]
+    )
+    const isScrubbing = !!(enableSwipe && enableScrub && webglAvailable)
+
+    const { scrubRef, handleDrag, handleDragEnd } = useScrub({
+      currentIndex,
+      totalSlides: slides.length,
+      loop,
+      getDragWidth,
+      canStart: canStartScrub,
+      onCommit: handleScrubCommit,
+      enabled: isScrubbing,
     })
 
     const {
-      handleTouchStart,
-      handleTouchMove,
-      handleTouchEnd,
-      handleMouseDown,
-      handleMouseMove,
-      handleMouseUp,
-      handleMouseLeave,
+      handlePointerDown,
+      handlePointerMove,
+      handlePointerUp,
+      handlePointerCancel,
+      handlePointerLeave,
     } = useSwipe({
-      onSwipeLeft: next,
-      onSwipeRight: prev,
+      // Scrubbing decides on release itself, so skip the plain swipe
+      onSwipeLeft: isScrubbing ? undefined : next,
+      onSwipeRight: isScrubbing ? undefined : prev,
+      onDrag: isScrubbing ? handleDrag : undefined,
+      onDragEnd: isScrubbing ? handleDragEnd : undefined,
       enabled: enableSwipe,
     })
 
+    useUrlSync({
+      slides,
+      currentIndex,
+      onNavigate: goTo,
+      enabled: !!syncWithUrl,
+      ...urlSyncOptions,
+    })
+
+    const goToFirst = useCallback(() => goTo(0), [goTo])
+    const goToLast = useCallback(() => goTo(slides.length - 1), [goTo, slides.length])
+
     useKeyboard({
+      target: containerRef,
+      onNext: next,
+      onPrev: prev,
+      onFirst: goToFirst,
+      onLast: goToLast,
+      onTogglePlay: togglePlay,
+      onToggleFullscreen: fullscreenAvailable ? handleToggleFullscreen : undefined,
+      onGoTo: goTo,
+      keyMap,
+      // The region only exists once there are slides to show
+      enabled: enableKeyboard && slides.length > 0,
+    })
+
+    useWheel({
+      target: containerRef,
       onNext: next,
       onPrev: prev,
-      enabled: enableKeyboard,
+      axis: wheelAxis,
+      enabled: enableWheel && slides.length > 0,
     })
 
     useImperativeHandle(ref, () => ({
@@ -130,18 +306,28 @@ export const Slideshow = forwardRef<SlideshowHandle, SlideshowProps>(
       prev,
       goTo,
       getCurrentIndex: () => currentIndex,
+      getTotal: () => slides.length,
+      play,
+      pause: stop,
+      toggle: togglePlay,
+      isPlaying: () => isPlaying,
+      isTransitioning: () => isTransitioningRef.current,
+      enterFullscreen,
+      exitFullscreen,
+      isFullscreen: () => isFullscreen,
     }))
 
     const containerStyle: React.CSSProperties = useMemo(
       () => ({
         position: 'relative',
-        width: typeof width === 'number' ? `${width}px` : width,
-        height: typeof height === 'number' ? `${height}px` : height,
+        // Fill the screen while fullscreen; the canvas follows the container size
+        width: isFullscreen ? '100%' : typeof width === 'number' ? `${width}px` : width,
+        height: isFullscreen ? '100%' : typeof height === 'number' ? `${height}px` : height,
         overflow: 'hidden',
-        borderRadius: 8,
+        borderRadius: isFullscreen ? 0 : 8,
         background: '#000',
       }),
-      [width, height]
+      [width, height, isFullscreen]
     )
 
     if (slides.length === 0) {
@@ -166,26 +352,27 @@ export const Slideshow = forwardRef<SlideshowHandle, SlideshowProps>(
       )
     }
 
-    const onMouseLeave = useCallback(() => {
-      handleMouseLeave()
-      resume()
-    }, [handleMouseLeave, resume])
-
     return (
       <div
+        ref={containerRef}
         role="region"
         aria-roledescription="carousel"
         aria-label={ariaLabel}
-        style={{ ...containerStyle, cursor: enableSwipe ? 'grab' : undefined }}
-        className={`r3dss r3dss--${style} ${className || ''}`.trim()}
+        tabIndex={enableKeyboard ? 0 : undefined}
+        style={{
+          ...containerStyle,
+          cursor: enableSwipe ? 'grab' : undefined,
+          // Leave vertical panning to the browser so the page still scrolls on touch
+          touchAction: enableSwipe ? 'pan-y' : undefined,
+        }}
+        className={`r3dss r3dss--${style}${isFullscreen ? ' r3dss--fullscreen' : ''} ${className || ''}`.trim()}
         onMouseEnter={pause}
-        onMouseLeave={onMouseLeave}
-        onMouseDown={handleMouseDown}
-        onMouseMove={handleMouseMove}
-        onMouseUp={handleMouseUp}
-        onTouchStart={handleTouchStart}
-        onTouchMove={handleTouchMove}
-        onTouchEnd={handleTouchEnd}
+        onMouseLeave={resume}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerCancel}
+        onPointerLeave={handlePointerLeave}
       >
         {/* Screen reader live region for slide announcements */}
         <div
@@ -213,6 +400,7 @@ export const Slideshow = forwardRef<SlideshowHandle, SlideshowProps>(
             className="r3dss__canvas"
             camera={{ position: [0, 0, 5], fov: 50 }}
             dpr={[1, 2]}
+            frameloop={isVisible ? 'always' : 'never'}
             style={{ touchAction: 'pan-y' }}
             flat
           >
@@ -222,13 +410,30 @@ export const Slideshow = forwardRef<SlideshowHandle, SlideshowProps>(
               transitionDuration={transitionDuration}
               style={style}
               direction={direction}
+              animate={animate}
+              jumpBehavior={jumpBehavior}
+              scrub={scrubRef}
               cascadeMinTiles={cascadeMinTiles}
               aspectRatio={aspectRatio}
               glitchAberration={glitchAberration}
               glitchScanlines={glitchScanlines}
               glitchGrain={glitchGrain}
-              fullscreen={fullscreen}
+              glitchSafeMode={glitchSafeMode}
+              fadeMode={fadeMode}
+              fadeColor={fadeColor}
+              rippleAmplitude={rippleAmplitude}
+              rippleFrequency={rippleFrequency}
+              rippleOrigin={rippleOrigin}
+              fullscreen={fullscreen || isFullscreen}
+              reducedMotion={isReducedMotion}
+              transitions={transitions}
+              preload={preload}
+              onSlideLoad={onSlideLoad}
+              onSlideLoadError={onSlideLoadError}
               onReady={handleReady}
+              onTransitionStart={handleTransitionStart}
+              onTransitionProgress={onTransitionProgress}
+              onTransitionEnd={handleTransitionEnd}
             />
           </Canvas>
         ) : fallback !== null ? (
@@ -264,27 +469,51 @@ export const Slideshow = forwardRef<SlideshowHandle, SlideshowProps>(
           </div>
         )}
 
-        {showControls && slides.length > 1 && (
+        {/* A single slide has nothing to navigate, but can still go fullscreen */}
+        {showControls && (slides.length > 1 || (fullscreenAvailable && fullscreenButton !== null)) && (
           <Controls
             onNext={next}
             onPrev={prev}
             canGoNext={canGoNext}
             canGoPrev={canGoPrev}
+            showNavigation={slides.length > 1}
             prevButton={prevButton}
             nextButton={nextButton}
+            fullscreenButton={fullscreenButton}
+            isFullscreen={isFullscreen}
+            onToggleFullscreen={fullscreenAvailable ? handleToggleFullscreen : undefined}
+            focusRingStyles={focusRingStyles}
+          />
+        )}
+
+        {showIndicators && slides.length > 1 && indicatorMode === 'thumbnails' && (
+          <Thumbnails
+            slides={slides}
+            current={currentIndex}
+            onSelect={goTo}
+            orientation={thumbnailOrientation}
             focusRingStyles={focusRingStyles}
           />
         )}
 
-        {showIndicators && slides.length > 1 && (
+        {showDots && (
           <Indicators
             total={slides.length}
             current={currentIndex}
             onSelect={goTo}
             renderIndicator={renderIndicator}
+            activeOverlay={
+              showProgress && progressVariant === 'ring' ? (
+                <AutoPlayProgress getProgress={getAutoPlayProgress} variant="ring" />
+              ) : undefined
+            }
             focusRingStyles={focusRingStyles}
           />
         )}
+
+        {showProgress && progressVariant === 'bar' && (
+          <AutoPlayProgress getProgress={getAutoPlayProgress} />
+        )}
       </div>
     )
   }
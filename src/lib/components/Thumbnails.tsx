@@ -0,0 +1,165 @@
+import React, { useMemo, useRef, useEffect } from 'react'
+import { ThumbnailsProps, FocusRingStyles } from '../types'
+
+function buildFocusStyles(ring: FocusRingStyles = {}) {
+  const color = ring.color ?? '#fff'
+  const width = ring.width ?? 2
+  const offset = ring.offset ?? 2
+  return `
+.r3dss__thumbnail:focus {
+  outline: none;
+}
+.r3dss__thumbnail:focus-visible {
+  outline: ${width}px solid ${color};
+  outline-offset: ${offset}px;
+}
+`
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    position: 'absolute',
+    display: 'flex',
+    gap: 8,
+    padding: 4,
+    scrollBehavior: 'smooth',
+    scrollbarWidth: 'none',
+    zIndex: 10,
+  },
+  horizontal: {
+    bottom: 12,
+    left: '50%',
+    transform: 'translateX(-50%)',
+    maxWidth: 'calc(100% - 24px)',
+    overflowX: 'auto',
+  },
+  vertical: {
+    flexDirection: 'column',
+    top: '50%',
+    // Clear of the next button
+    right: 64,
+    transform: 'translateY(-50%)',
+    maxHeight: 'calc(100% - 24px)',
+    overflowY: 'auto',
+  },
+  thumbnail: {
+    flex: 'none',
+    width: 64,
+    height: 40,
+    padding: 0,
+    border: '2px solid transparent',
+    borderRadius: 4,
+    overflow: 'hidden',
+    background: 'rgba(255, 255, 255, 0.2)',
+    color: '#fff',
+    fontSize: 12,
+    cursor: 'pointer',
+    opacity: 0.6,
+    transition: 'all 0.2s ease',
+  },
+  thumbnailActive: {
+    borderColor: 'rgba(255, 255, 255, 0.9)',
+    opacity: 1,
+  },
+  image: {
+    display: 'block',
+    width: '100%',
+    height: '100%',
+    objectFit: 'cover',
+    pointerEvents: 'none',
+  },
+}
+
+export function Thumbnails({
+  slides,
+  current,
+  onSelect,
+  orientation = 'horizontal',
+  focusRingStyles,
+}: ThumbnailsProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const itemRefs = useRef<(HTMLButtonElement | null)[]>([])
+
+  const focusStyles = useMemo(
+    () => buildFocusStyles(focusRingStyles),
+    [focusRingStyles]
+  )
+
+  // Keep the active thumbnail in view, scrolling only the strip and never the page
+  useEffect(() => {
+    const container = containerRef.current
+    const item = itemRefs.current[current]
+    if (!container || !item) return
+
+    if (orientation === 'horizontal') {
+      const start = item.offsetLeft
+      const end = start + item.offsetWidth
+      if (start < container.scrollLeft) {
+        container.scrollLeft = start
+      } else if (end > container.scrollLeft + container.clientWidth) {
+        container.scrollLeft = end - container.clientWidth
+      }
+    } else {
+      const start = item.offsetTop
+      const end = start + item.offsetHeight
+      if (start < container.scrollTop) {
+        container.scrollTop = start
+      } else if (end > container.scrollTop + container.clientHeight) {
+        container.scrollTop = end - container.clientHeight
+      }
+    }
+
+    // Focus follows the roving tabindex when navigating with the keyboard from inside the strip
+    if (container.contains(document.activeElement) && document.activeElement !== item) {
+      item.focus({ preventScroll: true })
+    }
+  }, [current, orientation])
+
+  return (
+    <>
+      <style>{focusStyles}</style>
+      <div
+        ref={containerRef}
+        className={`r3dss__thumbnails r3dss__thumbnails--${orientation}`}
+        role="tablist"
+        aria-label="Slide thumbnails"
+        aria-orientation={orientation}
+        style={{ ...styles.container, ...styles[orientation] }}
+        // Dragging the strip scrolls it rather than swiping the slideshow
+        onPointerDown={(e) => e.stopPropagation()}
+      >
+        {slides.map((slide, i) => {
+          const isActive = i === current
+          const src = slide.thumbnail ?? slide.image
+
+          return (
+            <button
+              key={slide.id}
+              ref={(el) => {
+                itemRefs.current[i] = el
+              }}
+              type="button"
+              role="tab"
+              className={`r3dss__thumbnail ${isActive ? 'r3dss__thumbnail--active' : ''}`}
+              style={{
+                ...styles.thumbnail,
+                ...(src ? {} : { background: slide.backgroundColor ?? styles.thumbnail.background }),
+                ...(isActive ? styles.thumbnailActive : {}),
+              }}
+              onClick={() => onSelect(i)}
+              aria-label={`Slide ${i + 1}`}
+              aria-selected={isActive}
+              tabIndex={isActive ? 0 : -1}
+            >
+              {src ? (
+                <img src={src} alt="" loading="lazy" draggable={false} style={styles.image} />
+              ) : (
+                i + 1
+              )}
+            </button>
+          )
+        })}
+      </div>
+    </>
+  )
+}
@@ -1,3 +1,10 @@
 export { useSlideshow } from './useSlideshow'
 export { useSwipe } from './useSwipe'
-export { useKeyboard } from './useKeyboard'
+export { useScrub } from './useScrub'
+export { useKeyboard, DEFAULT_KEY_MAP } from './useKeyboard'
+export { useWheel } from './useWheel'
+export { useFullscreen, isFullscreenSupported } from './useFullscreen'
+export { useVisibility } from './useVisibility'
+export { useReducedMotion } from './useReducedMotion'
+export { useSlideTextures } from './useSlideTextures'
+export { useUrlSync, getSlideIndexFromUrl } from './useUrlSync'
@@ -0,0 +1,113 @@
+import { renderHook, act } from '@testing-library/react'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { useFullscreen, isFullscreenSupported } from './useFullscreen'
+
+// jsdom has no Fullscreen API, so stand in for the browser's side of it
+let fullscreenElement: Element | null = null
+
+const setFullscreenElement = (element: Element | null) => {
+  fullscreenElement = element
+  document.dispatchEvent(new Event('fullscreenchange'))
+}
+
+describe('useFullscreen', () => {
+  let element: HTMLDivElement
+
+  beforeEach(() => {
+    element = document.createElement('div')
+    document.body.appendChild(element)
+    element.requestFullscreen = vi.fn(() => {
+      setFullscreenElement(element)
+      return Promise.resolve()
+    })
+    Object.defineProperty(document, 'fullscreenElement', {
+      configurable: true,
+      get: () => fullscreenElement,
+    })
+    Object.defineProperty(document, 'fullscreenEnabled', { configurable: true, value: true })
+    document.exitFullscreen = vi.fn(() => {
+      setFullscreenElement(null)
+      return Promise.resolve()
+    })
+  })
+
+  afterEach(() => {
+    fullscreenElement = null
+    document.body.innerHTML = ''
+  })
+
+  it('reports whether fullscreen is supported', () => {
+    expect(isFullscreenSupported()).toBe(true)
+
+    Object.defineProperty(document, 'fullscreenEnabled', { configurable: true, value: false })
+    expect(isFullscreenSupported()).toBe(false)
+  })
+
+  it('enters and exits fullscreen', async () => {
+    const { result } = renderHook(() => useFullscreen({ target: { current: element } }))
+
+    await act(() => result.current.enter())
+    expect(element.requestFullscreen).toHaveBeenCalledTimes(1)
+    expect(result.current.isFullscreen).toBe(true)
+
+    await act(() => result.current.exit())
+    expect(document.exitFullscreen).toHaveBeenCalledTimes(1)
+    expect(result.current.isFullscreen).toBe(false)
+  })
+
+  it('toggles fullscreen', async () => {
+    const { result } = renderHook(() => useFullscreen({ target: { current: element } }))
+
+    await act(() => result.current.toggle())
+    expect(result.current.isFullscreen).toBe(true)
+
+    await act(() => result.current.toggle())
+    expect(result.current.isFullscreen).toBe(false)
+  })
+
+  it('calls onChange when leaving fullscreen outside the hook, e.g. with Escape', async () => {
+    const onChange = vi.fn()
+    const { result } = renderHook(() => useFullscreen({ target: { current: element }, onChange }))
+
+    await act(() => result.current.enter())
+    act(() => setFullscreenElement(null))
+
+    expect(onChange).toHaveBeenNthCalledWith(1, true)
+    expect(onChange).toHaveBeenNthCalledWith(2, false)
+    expect(result.current.isFullscreen).toBe(false)
+  })
+
+  it('ignores other elements going fullscreen', async () => {
+    const onChange = vi.fn()
+    const other = document.createElement('video')
+    const { result } = renderHook(() => useFullscreen({ target: { current: element }, onChange }))
+
+    act(() => setFullscreenElement(other))
+    await act(() => result.current.exit())
+
+    expect(onChange).not.toHaveBeenCalled()
+    expect(result.current.isFullscreen).toBe(false)
+    expect(document.exitFullscreen).not.toHaveBeenCalled()
+  })
+
+  it('passes on a refused request', async () => {
+    element.requestFullscreen = vi.fn(() => Promise.reject(new TypeError('Permissions check failed')))
+    const { result } = renderHook(() => useFullscreen({ target: { current: element } }))
+
+    await expect(result.current.enter()).rejects.toThrow('Permissions check failed')
+    expect(result.current.isFullscreen).toBe(false)
+  })
+
+  it('does nothing when disabled', async () => {
+    const onChange = vi.fn()
+    const { result } = renderHook(() =>
+      useFullscreen({ target: { current: element }, onChange, enabled: false })
+    )
+
+    await act(() => result.current.enter())
+    act(() => setFullscreenElement(element))
+
+    expect(element.requestFullscreen).not.toHaveBeenCalled()
+    expect(onChange).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,58 @@
+import { useState, useEffect, useRef, useCallback, RefObject } from 'react'
+
+interface UseFullscreenOptions {
+  /** Element to show fullscreen */
+  target: RefObject<HTMLElement | null>
+  /** Called when the element enters or leaves fullscreen, including via Escape */
+  onChange?: (isFullscreen: boolean) => void
+  enabled?: boolean
+}
+
+/** Whether the browser lets pages go fullscreen, e.g. not inside iframes without allowfullscreen */
+export const isFullscreenSupported = (): boolean =>
+  typeof document !== 'undefined' && !!document.fullscreenEnabled
+
+export function useFullscreen({ target, onChange, enabled = true }: UseFullscreenOptions) {
+  const [isFullscreen, setIsFullscreen] = useState(false)
+  const isFullscreenRef = useRef(false)
+  const onChangeRef = useRef(onChange)
+  onChangeRef.current = onChange
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const handleChange = () => {
+      const next = !!target.current && document.fullscreenElement === target.current
+      if (next === isFullscreenRef.current) return
+      isFullscreenRef.current = next
+      setIsFullscreen(next)
+      onChangeRef.current?.(next)
+    }
+
+    document.addEventListener('fullscreenchange', handleChange)
+    return () => {
+      document.removeEventListener('fullscreenchange', handleChange)
+    }
+  }, [enabled, target])
+
+  /** Resolves once fullscreen, rejects if the browser refuses (e.g. outside a user gesture) */
+  const enter = useCallback((): Promise<void> => {
+    const element = target.current
+    if (!enabled || !element || !isFullscreenSupported()) return Promise.resolve()
+    if (document.fullscreenElement === element) return Promise.resolve()
+    return element.requestFullscreen()
+  }, [enabled, target])
+
+  const exit = useCallback((): Promise<void> => {
+    // Leave other elements' fullscreen alone
+    if (!target.current || document.fullscreenElement !== target.current) return Promise.resolve()
+    return document.exitFullscreen()
+  }, [target])
+
+  const toggle = useCallback(
+    () => (isFullscreenRef.current ? exit() : enter()),
+    [enter, exit]
+  )
+
+  return { isFullscreen, enter, exit, toggle }
+}
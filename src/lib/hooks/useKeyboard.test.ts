@@ -1,5 +1,5 @@
 import { renderHook } from '@testing-library/react'
-import { describe, it, expect, vi } from 'vitest'
+import { describe, it, expect, vi, afterEach } from 'vitest'
 import { useKeyboard } from './useKeyboard'
 
 describe('useKeyboard', () => {
@@ -21,16 +21,6 @@ describe('useKeyboard', () => {
       expect(onPrev).not.toHaveBeenCalled()
     })
 
-    it('calls onNext for ArrowDown', () => {
-      const onNext = vi.fn()
-
-      renderHook(() => useKeyboard({ onNext }))
-
-      dispatchKeyDown('ArrowDown')
-
-      expect(onNext).toHaveBeenCalledTimes(1)
-    })
-
     it('calls onPrev for ArrowLeft', () => {
       const onNext = vi.fn()
       const onPrev = vi.fn()
@@ -43,14 +33,21 @@ describe('useKeyboard', () => {
       expect(onNext).not.toHaveBeenCalled()
     })
 
-    it('calls onPrev for ArrowUp', () => {
+    it('leaves ArrowUp and ArrowDown to page scrolling', () => {
+      const onNext = vi.fn()
       const onPrev = vi.fn()
 
-      renderHook(() => useKeyboard({ onPrev }))
+      renderHook(() => useKeyboard({ onNext, onPrev }))
 
-      dispatchKeyDown('ArrowUp')
+      const down = new KeyboardEvent('keydown', { key: 'ArrowDown', bubbles: true, cancelable: true })
+      const up = new KeyboardEvent('keydown', { key: 'ArrowUp', bubbles: true, cancelable: true })
+      window.dispatchEvent(down)
+      window.dispatchEvent(up)
 
-      expect(onPrev).toHaveBeenCalledTimes(1)
+      expect(onNext).not.toHaveBeenCalled()
+      expect(onPrev).not.toHaveBeenCalled()
+      expect(down.defaultPrevented).toBe(false)
+      expect(up.defaultPrevented).toBe(false)
     })
 
     it('ignores other keys', () => {
@@ -140,4 +137,172 @@ describe('useKeyboard', () => {
       expect(() => dispatchKeyDown('ArrowLeft')).not.toThrow()
     })
   })
+
+  describe('key map', () => {
+    it('handles Home, End, PageUp and PageDown', () => {
+      const onNext = vi.fn()
+      const onPrev = vi.fn()
+      const onFirst = vi.fn()
+      const onLast = vi.fn()
+
+      renderHook(() => useKeyboard({ onNext, onPrev, onFirst, onLast }))
+
+      dispatchKeyDown('Home')
+      dispatchKeyDown('End')
+      dispatchKeyDown('PageDown')
+      dispatchKeyDown('PageUp')
+
+      expect(onFirst).toHaveBeenCalledTimes(1)
+      expect(onLast).toHaveBeenCalledTimes(1)
+      expect(onNext).toHaveBeenCalledTimes(1)
+      expect(onPrev).toHaveBeenCalledTimes(1)
+    })
+
+    it('toggles play with Space and jumps with number keys', () => {
+      const onTogglePlay = vi.fn()
+      const onGoTo = vi.fn()
+
+      renderHook(() => useKeyboard({ onTogglePlay, onGoTo }))
+
+      dispatchKeyDown(' ')
+      dispatchKeyDown('3')
+
+      expect(onTogglePlay).toHaveBeenCalledTimes(1)
+      expect(onGoTo).toHaveBeenCalledWith(2)
+    })
+
+    it('toggles fullscreen with F', () => {
+      const onToggleFullscreen = vi.fn()
+
+      renderHook(() => useKeyboard({ onToggleFullscreen }))
+
+      dispatchKeyDown('f')
+
+      expect(onToggleFullscreen).toHaveBeenCalledTimes(1)
+    })
+
+    it('merges a custom key map over the defaults', () => {
+      const onNext = vi.fn()
+      const onFirst = vi.fn()
+      const onGoTo = vi.fn()
+
+      renderHook(() =>
+        useKeyboard({ onNext, onFirst, onGoTo, keyMap: { j: 'next', Home: null, '0': 9 } })
+      )
+
+      dispatchKeyDown('j')
+      dispatchKeyDown('ArrowRight')
+      dispatchKeyDown('Home')
+      dispatchKeyDown('0')
+
+      expect(onNext).toHaveBeenCalledTimes(2)
+      expect(onFirst).not.toHaveBeenCalled()
+      expect(onGoTo).toHaveBeenCalledWith(9)
+    })
+  })
+
+  describe('guards', () => {
+    afterEach(() => {
+      document.body.innerHTML = ''
+    })
+
+    const dispatchOn = (element: Element, key: string, init: KeyboardEventInit = {}) => {
+      const event = new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true, ...init })
+      element.dispatchEvent(event)
+      return event
+    }
+
+    it('ignores keys typed into editable elements', () => {
+      const onNext = vi.fn()
+      const input = document.createElement('input')
+      const editable = document.createElement('div')
+      editable.setAttribute('contenteditable', 'true')
+      const inner = document.createElement('span')
+      editable.appendChild(inner)
+      document.body.append(input, editable)
+
+      renderHook(() => useKeyboard({ onNext }))
+
+      dispatchOn(input, 'ArrowRight')
+      dispatchOn(inner, 'ArrowRight')
+
+      expect(onNext).not.toHaveBeenCalled()
+    })
+
+    it('ignores keys held with modifiers', () => {
+      const onPrev = vi.fn()
+
+      renderHook(() => useKeyboard({ onPrev }))
+
+      dispatchOn(document.body, 'ArrowLeft', { altKey: true })
+      dispatchOn(document.body, 'ArrowLeft', { metaKey: true })
+
+      expect(onPrev).not.toHaveBeenCalled()
+    })
+
+    it('lets Space click a focused button', () => {
+      const onTogglePlay = vi.fn()
+      const button = document.createElement('button')
+      document.body.appendChild(button)
+
+      renderHook(() => useKeyboard({ onTogglePlay }))
+
+      const event = dispatchOn(button, ' ')
+
+      expect(onTogglePlay).not.toHaveBeenCalled()
+      expect(event.defaultPrevented).toBe(false)
+    })
+
+    it('prevents the default action only for handled keys', () => {
+      renderHook(() => useKeyboard({ onNext: vi.fn() }))
+
+      expect(dispatchOn(document.body, 'ArrowRight').defaultPrevented).toBe(true)
+      expect(dispatchOn(document.body, 'Tab').defaultPrevented).toBe(false)
+    })
+
+    it('keeps the default action for mapped keys without a handler', () => {
+      renderHook(() => useKeyboard({ onNext: vi.fn() }))
+
+      expect(dispatchOn(document.body, 'f').defaultPrevented).toBe(false)
+      expect(dispatchOn(document.body, '3').defaultPrevented).toBe(false)
+    })
+  })
+
+  describe('scoped target', () => {
+    afterEach(() => {
+      document.body.innerHTML = ''
+    })
+
+    it('only responds to keys from inside its target', () => {
+      const first = document.createElement('div')
+      const second = document.createElement('div')
+      document.body.append(first, second)
+      const onFirstNext = vi.fn()
+      const onSecondNext = vi.fn()
+
+      renderHook(() => useKeyboard({ target: { current: first }, onNext: onFirstNext }))
+      renderHook(() => useKeyboard({ target: { current: second }, onNext: onSecondNext }))
+
+      const child = document.createElement('button')
+      first.appendChild(child)
+      child.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight', bubbles: true }))
+      dispatchKeyDown('ArrowRight')
+
+      expect(onFirstNext).toHaveBeenCalledTimes(1)
+      expect(onSecondNext).not.toHaveBeenCalled()
+    })
+
+    it('removes the listener from its target on unmount', () => {
+      const element = document.createElement('div')
+      document.body.appendChild(element)
+      const onNext = vi.fn()
+
+      const { unmount } = renderHook(() => useKeyboard({ target: { current: element }, onNext }))
+      unmount()
+
+      element.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight', bubbles: true }))
+
+      expect(onNext).not.toHaveBeenCalled()
+    })
+  })
 })
@@ -1,43 +1,96 @@
-import { useEffect, useCallback } from 'react'
+import { useEffect, useCallback, RefObject } from 'react'
+import { KeyMap } from '../types'
 
 interface UseKeyboardOptions {
+  /** Element to listen on, so only a focused slideshow responds. Listens on window if omitted */
+  target?: RefObject<HTMLElement | null>
   onNext?: () => void
   onPrev?: () => void
+  onFirst?: () => void
+  onLast?: () => void
+  onTogglePlay?: () => void
+  onToggleFullscreen?: () => void
+  onGoTo?: (index: number) => void
+  /** Merged over DEFAULT_KEY_MAP; map a key to null to turn it off */
+  keyMap?: KeyMap
   enabled?: boolean
 }
 
+/** Arrow keys, Home/End, PageUp/PageDown, Space to play/pause, F for fullscreen and 1-9 to jump to a slide */
+export const DEFAULT_KEY_MAP: KeyMap = {
+  ArrowRight: 'next',
+  ArrowLeft: 'prev',
+  PageDown: 'next',
+  PageUp: 'prev',
+  Home: 'first',
+  End: 'last',
+  ' ': 'togglePlay',
+  f: 'fullscreen',
+  ...Object.fromEntries(Array.from({ length: 9 }, (_, i) => [String(i + 1), i])),
+}
+
+// Typing in a field inside the slideshow shouldn't change slides
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) ||
+    target.closest('[contenteditable]:not([contenteditable="false"])') !== null)
+
+// Space already clicks focused buttons and links
+const isActivatableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && target.closest('button, a[href], [role="button"]') !== null
+
 export function useKeyboard({
+  target,
   onNext,
   onPrev,
+  onFirst,
+  onLast,
+  onTogglePlay,
+  onToggleFullscreen,
+  onGoTo,
+  keyMap,
   enabled = true,
 }: UseKeyboardOptions) {
   const handleKeyDown = useCallback(
     (e: KeyboardEvent) => {
-      if (!enabled) return
-
-      switch (e.key) {
-        case 'ArrowRight':
-        case 'ArrowDown':
-          e.preventDefault()
-          onNext?.()
-          break
-        case 'ArrowLeft':
-        case 'ArrowUp':
-          e.preventDefault()
-          onPrev?.()
-          break
+      if (!enabled || e.defaultPrevented) return
+      // Leave browser and OS shortcuts alone
+      if (e.ctrlKey || e.metaKey || e.altKey) return
+      if (isEditableTarget(e.target)) return
+
+      const action = { ...DEFAULT_KEY_MAP, ...keyMap }[e.key]
+      if (action === undefined || action === null) return
+      if (e.key === ' ' && isActivatableTarget(e.target)) return
+
+      const handlers = {
+        next: onNext,
+        prev: onPrev,
+        first: onFirst,
+        last: onLast,
+        togglePlay: onTogglePlay,
+        fullscreen: onToggleFullscreen,
       }
+      const handler =
+        typeof action === 'number' ? onGoTo && (() => onGoTo(action)) : handlers[action]
+      // Keys without a handler (e.g. F when fullscreen is unsupported) keep their default
+      if (!handler) return
+
+      e.preventDefault()
+      handler()
     },
-    [enabled, onNext, onPrev]
+    [enabled, keyMap, onNext, onPrev, onFirst, onLast, onTogglePlay, onToggleFullscreen, onGoTo]
   )
 
   useEffect(() => {
-    if (enabled) {
-      window.addEventListener('keydown', handleKeyDown)
-    }
+    const element: HTMLElement | Window | null = target ? target.current : window
+    if (!enabled || !element) return
+
+    const listener = handleKeyDown as EventListener
+    element.addEventListener('keydown', listener)
 
     return () => {
-      window.removeEventListener('keydown', handleKeyDown)
+      element.removeEventListener('keydown', listener)
     }
-  }, [enabled, handleKeyDown])
+  }, [enabled, target, handleKeyDown])
 }
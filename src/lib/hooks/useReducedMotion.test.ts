@@ -0,0 +1,76 @@
+import { renderHook, act } from '@testing-library/react'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { useReducedMotion } from './useReducedMotion'
+
+// jsdom has no matchMedia; fake one whose preference tests can flip
+let matches = false
+const listeners = new Set<() => void>()
+
+const mockMatchMedia = (query: string) => ({
+  media: query,
+  get matches() {
+    return matches
+  },
+  addEventListener: (_: string, listener: () => void) => listeners.add(listener),
+  removeEventListener: (_: string, listener: () => void) => listeners.delete(listener),
+})
+
+const setPreference = (reduce: boolean) => {
+  matches = reduce
+  listeners.forEach((listener) => listener())
+}
+
+describe('useReducedMotion', () => {
+  beforeEach(() => {
+    matches = false
+    vi.stubGlobal('matchMedia', vi.fn(mockMatchMedia))
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    listeners.clear()
+  })
+
+  it('follows the user preference in auto mode', () => {
+    matches = true
+    const { result } = renderHook(() => useReducedMotion('auto'))
+    expect(result.current).toBe(true)
+  })
+
+  it('updates when the preference changes', () => {
+    const { result } = renderHook(() => useReducedMotion())
+    expect(result.current).toBe(false)
+
+    act(() => setPreference(true))
+    expect(result.current).toBe(true)
+
+    act(() => setPreference(false))
+    expect(result.current).toBe(false)
+  })
+
+  it('always reduces motion when set to always', () => {
+    const { result } = renderHook(() => useReducedMotion('always'))
+    expect(result.current).toBe(true)
+  })
+
+  it('ignores the preference when set to never', () => {
+    matches = true
+    const { result } = renderHook(() => useReducedMotion('never'))
+    expect(result.current).toBe(false)
+    expect(listeners.size).toBe(0)
+  })
+
+  it('stops listening on unmount', () => {
+    const { unmount } = renderHook(() => useReducedMotion())
+    expect(listeners.size).toBe(1)
+
+    unmount()
+    expect(listeners.size).toBe(0)
+  })
+
+  it('assumes full motion where matchMedia is unavailable', () => {
+    vi.stubGlobal('matchMedia', undefined)
+    const { result } = renderHook(() => useReducedMotion())
+    expect(result.current).toBe(false)
+  })
+})
@@ -0,0 +1,36 @@
+import { useState, useEffect } from 'react'
+import { ReducedMotion } from '../types'
+
+const QUERY = '(prefers-reduced-motion: reduce)'
+
+const getMediaQuery = () =>
+  typeof window === 'undefined' || typeof window.matchMedia !== 'function'
+    ? null
+    : window.matchMedia(QUERY)
+
+/**
+ * Whether to cut down on motion. 'auto' follows the user's prefers-reduced-motion
+ * setting and updates when it changes; 'always' and 'never' override it
+ */
+export function useReducedMotion(mode: ReducedMotion = 'auto') {
+  const [prefersReduced, setPrefersReduced] = useState(() => getMediaQuery()?.matches ?? false)
+
+  useEffect(() => {
+    if (mode !== 'auto') return
+
+    const mediaQuery = getMediaQuery()
+    if (!mediaQuery) return
+
+    const handleChange = () => setPrefersReduced(mediaQuery.matches)
+    handleChange()
+
+    mediaQuery.addEventListener('change', handleChange)
+    return () => {
+      mediaQuery.removeEventListener('change', handleChange)
+    }
+  }, [mode])
+
+  if (mode === 'always') return true
+  if (mode === 'never') return false
+  return prefersReduced
+}
@@ -0,0 +1,214 @@
+import { renderHook, act } from '@testing-library/react'
+import { describe, it, expect, vi } from 'vitest'
+import { useScrub } from './useScrub'
+
+const getDragWidth = () => 400
+
+describe('useScrub', () => {
+  it('tracks drag progress toward the next slide when dragging left', () => {
+    const { result } = renderHook(() =>
+      useScrub({ currentIndex: 0, totalSlides: 3, getDragWidth, onCommit: vi.fn() })
+    )
+
+    act(() => {
+      result.current.handleDrag(-100)
+    })
+
+    expect(result.current.scrubRef.current).toEqual({
+      from: 0,
+      to: 1,
+      direction: 'next',
+      progress: 0.25,
+    })
+  })
+
+  it('wraps to the last slide when dragging right from the first', () => {
+    const { result } = renderHook(() =>
+      useScrub({ currentIndex: 0, totalSlides: 3, getDragWidth, onCommit: vi.fn() })
+    )
+
+    act(() => {
+      result.current.handleDrag(200)
+    })
+
+    expect(result.current.scrubRef.current).toMatchObject({ to: 2, direction: 'prev', progress: 0.5 })
+  })
+
+  it('keeps the direction for the whole drag and clamps progress', () => {
+    const { result } = renderHook(() =>
+      useScrub({ currentIndex: 1, totalSlides: 3, getDragWidth, onCommit: vi.fn() })
+    )
+
+    act(() => {
+      result.current.handleDrag(-100)
+      result.current.handleDrag(50)
+    })
+    expect(result.current.scrubRef.current).toMatchObject({ direction: 'next', progress: 0 })
+
+    act(() => {
+      result.current.handleDrag(-900)
+    })
+    expect(result.current.scrubRef.current?.progress).toBe(1)
+  })
+
+  it('does not scrub past the ends when loop=false', () => {
+    const { result } = renderHook(() =>
+      useScrub({ currentIndex: 0, totalSlides: 3, loop: false, getDragWidth, onCommit: vi.fn() })
+    )
+
+    act(() => {
+      result.current.handleDrag(200)
+    })
+
+    expect(result.current.scrubRef.current).toBeNull()
+  })
+
+  it('ignores drags when canStart returns false', () => {
+    const { result } = renderHook(() =>
+      useScrub({ currentIndex: 0, totalSlides: 3, getDragWidth, canStart: () => false, onCommit: vi.fn() })
+    )
+
+    act(() => {
+      result.current.handleDrag(-200)
+    })
+
+    expect(result.current.scrubRef.current).toBeNull()
+  })
+
+  it('swipes when a drag could not be scrubbed', () => {
+    const onCommit = vi.fn()
+    const { result } = renderHook(() =>
+      useScrub({ currentIndex: 0, totalSlides: 3, getDragWidth, canStart: () => false, onCommit })
+    )
+
+    act(() => {
+      result.current.handleDrag(-30)
+      result.current.handleDragEnd(-30, 0)
+    })
+    expect(onCommit).not.toHaveBeenCalled()
+
+    act(() => {
+      result.current.handleDrag(-120)
+      result.current.handleDragEnd(-120, 0)
+    })
+    expect(onCommit).toHaveBeenCalledWith('next')
+  })
+
+  it('commits when released past the threshold', () => {
+    const onCommit = vi.fn()
+    const { result } = renderHook(() =>
+      useScrub({ currentIndex: 0, totalSlides: 3, getDragWidth, onCommit })
+    )
+
+    act(() => {
+      result.current.handleDrag(-240)
+      result.current.handleDragEnd(-240, 0)
+    })
+
+    expect(onCommit).toHaveBeenCalledWith('next')
+    expect(result.current.scrubRef.current?.released).toBe('commit')
+  })
+
+  it('commits a short flick', () => {
+    const onCommit = vi.fn()
+    const { result } = renderHook(() =>
+      useScrub({ currentIndex: 1, totalSlides: 3, getDragWidth, onCommit })
+    )
+
+    act(() => {
+      result.current.handleDrag(60)
+      result.current.handleDragEnd(60, 1.2)
+    })
+
+    expect(onCommit).toHaveBeenCalledWith('prev')
+  })
+
+  it('snaps back when released early or flicked the other way', () => {
+    const onCommit = vi.fn()
+    const { result } = renderHook(() =>
+      useScrub({ currentIndex: 0, totalSlides: 3, getDragWidth, onCommit })
+    )
+
+    act(() => {
+      result.current.handleDrag(-100)
+      result.current.handleDragEnd(-100, 0.1)
+    })
+    expect(result.current.scrubRef.current?.released).toBe('cancel')
+
+    act(() => {
+      result.current.handleDrag(-300)
+      result.current.handleDragEnd(-300, 1.5)
+    })
+    expect(result.current.scrubRef.current?.released).toBe('cancel')
+    expect(onCommit).not.toHaveBeenCalled()
+  })
+
+  it('snaps back without settling forward when navigation is refused', () => {
+    const onCommit = vi.fn(() => false)
+    const { result } = renderHook(() =>
+      useScrub({ currentIndex: 0, totalSlides: 3, getDragWidth, onCommit })
+    )
+
+    act(() => {
+      result.current.handleDrag(-300)
+      result.current.handleDragEnd(-300, 0)
+    })
+
+    expect(onCommit).toHaveBeenCalledWith('next')
+    expect(result.current.scrubRef.current?.released).toBe('cancel')
+  })
+
+  it('holds a released drag until an async guard decides', async () => {
+    let resolveGuard: (accepted: boolean) => void = () => {}
+    const onCommit = vi.fn(
+      () => new Promise<boolean>((resolve) => (resolveGuard = resolve))
+    )
+    const { result } = renderHook(() =>
+      useScrub({ currentIndex: 0, totalSlides: 3, getDragWidth, onCommit })
+    )
+
+    act(() => {
+      result.current.handleDrag(-300)
+      result.current.handleDragEnd(-300, 0)
+    })
+    const scrub = result.current.scrubRef.current
+    expect(scrub?.released).toBeUndefined()
+
+    // Further drags don't move a drag that is waiting on the guard
+    act(() => {
+      result.current.handleDrag(-100)
+    })
+    expect(scrub?.progress).toBe(0.75)
+
+    await act(async () => {
+      resolveGuard(false)
+    })
+    expect(scrub?.released).toBe('cancel')
+  })
+
+  it('settles forward once an async guard accepts', async () => {
+    const onCommit = vi.fn(() => Promise.resolve(true))
+    const { result } = renderHook(() =>
+      useScrub({ currentIndex: 0, totalSlides: 3, getDragWidth, onCommit })
+    )
+
+    await act(async () => {
+      result.current.handleDrag(-300)
+      result.current.handleDragEnd(-300, 0)
+    })
+
+    expect(result.current.scrubRef.current?.released).toBe('commit')
+  })
+
+  it('does nothing when disabled', () => {
+    const { result } = renderHook(() =>
+      useScrub({ currentIndex: 0, totalSlides: 3, getDragWidth, onCommit: vi.fn(), enabled: false })
+    )
+
+    act(() => {
+      result.current.handleDrag(-200)
+    })
+
+    expect(result.current.scrubRef.current).toBeNull()
+  })
+})
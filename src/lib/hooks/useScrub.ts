@@ -0,0 +1,119 @@
+import { useRef, useCallback } from 'react'
+import { ScrubState } from '../types'
+
+interface UseScrubOptions {
+  currentIndex: number
+  totalSlides: number
+  loop?: boolean
+  /** Width in pixels of a full drag, i.e. one whole transition */
+  getDragWidth: () => number
+  /** Return false to ignore drags, e.g. while a transition is already playing */
+  canStart?: () => boolean
+  /**
+   * Called on release when the drag should carry on to the next or previous slide.
+   * Return false, or a Promise of false, when navigation was refused so the drag
+   * snaps back instead
+   */
+  onCommit: (direction: 'next' | 'prev') => boolean | void | Promise<boolean | void>
+  /** Fraction of a full drag past which release settles forward */
+  commitThreshold?: number
+  /** Release velocity in px/ms past which a flick decides regardless of distance */
+  velocityThreshold?: number
+  /** Distance in px that still counts as a swipe when a drag couldn't be scrubbed */
+  swipeThreshold?: number
+  enabled?: boolean
+}
+
+// Movement under this many pixels doesn't pick a drag direction yet
+const DIRECTION_LOCK_DISTANCE = 5
+
+export function useScrub({
+  currentIndex,
+  totalSlides,
+  loop = true,
+  getDragWidth,
+  canStart,
+  onCommit,
+  commitThreshold = 0.5,
+  velocityThreshold = 0.5,
+  swipeThreshold = 50,
+  enabled = true,
+}: UseScrubOptions) {
+  const scrubRef = useRef<ScrubState | null>(null)
+  // A released drag waiting on an async onCommit; it holds still until that resolves
+  const pendingRef = useRef<ScrubState | null>(null)
+
+  // Dragging left pulls in the next slide, like native carousels
+  const handleDrag = useCallback(
+    (deltaX: number) => {
+      if (!enabled || totalSlides < 2) return
+
+      let scrub = scrubRef.current
+      if (scrub && scrub === pendingRef.current) return
+      if (!scrub || scrub.released) {
+        if (Math.abs(deltaX) < DIRECTION_LOCK_DISTANCE) return
+        if (canStart && !canStart()) return
+
+        const direction = deltaX < 0 ? 'next' : 'prev'
+        const to = direction === 'next' ? currentIndex + 1 : currentIndex - 1
+        if (!loop && (to < 0 || to >= totalSlides)) return
+
+        scrub = {
+          from: currentIndex,
+          to: (to + totalSlides) % totalSlides,
+          direction,
+          progress: 0,
+        }
+        scrubRef.current = scrub
+      }
+
+      // The direction is locked for the whole drag; pulling back past the start stops at 0
+      const distance = scrub.direction === 'next' ? -deltaX : deltaX
+      const width = Math.max(getDragWidth(), 1)
+      scrub.progress = Math.min(Math.max(distance / width, 0), 1)
+    },
+    [enabled, canStart, currentIndex, totalSlides, loop, getDragWidth]
+  )
+
+  const handleDragEnd = useCallback(
+    (deltaX: number, velocityX: number) => {
+      if (!enabled) return
+
+      // Drags that never started scrubbing (e.g. made during a transition) still swipe
+      const scrub = scrubRef.current
+      if (!scrub || scrub.released || scrub === pendingRef.current) {
+        if (Math.abs(deltaX) > swipeThreshold) onCommit(deltaX < 0 ? 'next' : 'prev')
+        return
+      }
+
+      // A flick decides on its own, in either direction; otherwise the distance does
+      const velocity = scrub.direction === 'next' ? -velocityX : velocityX
+      const shouldCommit =
+        scrub.progress > 0 &&
+        (Math.abs(velocity) >= velocityThreshold
+          ? velocity > 0
+          : scrub.progress >= commitThreshold)
+
+      if (!shouldCommit) {
+        scrub.released = 'cancel'
+        return
+      }
+
+      // Only settle forward once navigation is accepted, so a vetoed slide is never shown
+      const accepted = onCommit(scrub.direction)
+      if (accepted instanceof Promise) {
+        pendingRef.current = scrub
+        const settle = (result: boolean | void) => {
+          if (pendingRef.current === scrub) pendingRef.current = null
+          scrub.released = result === false ? 'cancel' : 'commit'
+        }
+        accepted.then(settle, () => settle(false))
+      } else {
+        scrub.released = accepted === false ? 'cancel' : 'commit'
+      }
+    },
+    [enabled, commitThreshold, velocityThreshold, swipeThreshold, onCommit]
+  )
+
+  return { scrubRef, handleDrag, handleDragEnd }
+}
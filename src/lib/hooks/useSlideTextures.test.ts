@@ -0,0 +1,373 @@
+import { createElement } from 'react'
+import { renderHook, waitFor } from '@testing-library/react'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { Texture } from 'three'
+import { SlideTexture } from '../types'
+import { useSlideTextures, getPreloadIndices } from './useSlideTextures'
+import {
+  loadImageTexture,
+  createColorTexture,
+  createContentTexture,
+} from '../utils/textureCache'
+
+vi.mock('../utils/textureCache', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../utils/textureCache')>()
+  return {
+    ...actual,
+    loadImageTexture: vi.fn(),
+    createColorTexture: vi.fn(),
+    createContentTexture: vi.fn(),
+  }
+})
+
+const createMockTexture = (imageAspect = 1.5): SlideTexture => ({
+  texture: { dispose: vi.fn() } as unknown as Texture,
+  imageAspect,
+  width: Math.round(600 * imageAspect),
+  height: 600,
+})
+
+// Let deferred disposal (queued as a microtask) run
+const flushMicrotasks = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+describe('useSlideTextures', () => {
+  beforeEach(() => {
+    vi.mocked(loadImageTexture).mockReset()
+    vi.mocked(createColorTexture).mockReset()
+    vi.mocked(createContentTexture).mockReset()
+    vi.mocked(loadImageTexture).mockImplementation(() => Promise.resolve(createMockTexture()))
+    vi.mocked(createColorTexture).mockImplementation(() => Promise.resolve(createMockTexture(1)))
+    vi.mocked(createContentTexture).mockImplementation(() =>
+      Promise.resolve(createMockTexture(1.5))
+    )
+  })
+
+  it('loads a texture for every slide', async () => {
+    const slides = [
+      { id: 1, image: 'load-a.jpg' },
+      { id: 2, image: 'load-b.jpg' },
+    ]
+
+    const { result } = renderHook(() => useSlideTextures({ slides }))
+
+    await waitFor(() => {
+      expect(result.current.loadStates).toEqual(['loaded', 'loaded'])
+    })
+    expect(result.current.textures[0]).toBeDefined()
+    expect(result.current.textures[1]).toBeDefined()
+    expect(loadImageTexture).toHaveBeenCalledTimes(2)
+  })
+
+  it('shares cached textures between instances', async () => {
+    const slides = [{ id: 1, image: 'shared.jpg' }]
+
+    const first = renderHook(() => useSlideTextures({ slides }))
+    const second = renderHook(() => useSlideTextures({ slides }))
+
+    await waitFor(() => {
+      expect(first.result.current.loadStates).toEqual(['loaded'])
+      expect(second.result.current.loadStates).toEqual(['loaded'])
+    })
+
+    expect(loadImageTexture).toHaveBeenCalledTimes(1)
+    expect(first.result.current.textures[0]).toBe(second.result.current.textures[0])
+  })
+
+  it('does not reload when the slides array is recreated', async () => {
+    const { result, rerender } = renderHook(
+      ({ slides }) => useSlideTextures({ slides }),
+      { initialProps: { slides: [{ id: 1, image: 'stable.jpg' }] } }
+    )
+
+    await waitFor(() => {
+      expect(result.current.loadStates).toEqual(['loaded'])
+    })
+
+    rerender({ slides: [{ id: 1, image: 'stable.jpg' }] })
+    await flushMicrotasks()
+
+    expect(result.current.loadStates).toEqual(['loaded'])
+    expect(loadImageTexture).toHaveBeenCalledTimes(1)
+  })
+
+  it('disposes textures once the last user unmounts', async () => {
+    const slides = [{ id: 1, image: 'dispose.jpg' }]
+
+    const first = renderHook(() => useSlideTextures({ slides }))
+    const second = renderHook(() => useSlideTextures({ slides }))
+
+    await waitFor(() => {
+      expect(first.result.current.loadStates).toEqual(['loaded'])
+    })
+    const texture = first.result.current.textures[0]!.texture
+
+    first.unmount()
+    await flushMicrotasks()
+    expect(texture.dispose).not.toHaveBeenCalled()
+
+    second.unmount()
+    await flushMicrotasks()
+    expect(texture.dispose).toHaveBeenCalledTimes(1)
+  })
+
+  it('marks failed slides as errored with a placeholder texture', async () => {
+    vi.mocked(loadImageTexture).mockImplementation(() =>
+      Promise.reject(new Error('Failed to load image: broken.jpg'))
+    )
+    const slides = [{ id: 1, image: 'broken.jpg' }]
+
+    const { result } = renderHook(() => useSlideTextures({ slides }))
+
+    await waitFor(() => {
+      expect(result.current.loadStates).toEqual(['error'])
+    })
+    expect(result.current.textures[0]).toBeDefined()
+    expect(createColorTexture).toHaveBeenCalledWith('#333')
+  })
+
+  it('does not release a failed load from another instance', async () => {
+    vi.mocked(loadImageTexture).mockImplementationOnce(() =>
+      Promise.reject(new Error('Failed to load image: flaky.jpg'))
+    )
+    const slides = [{ id: 1, image: 'flaky.jpg' }]
+
+    const first = renderHook(() => useSlideTextures({ slides }))
+    await waitFor(() => {
+      expect(first.result.current.loadStates).toEqual(['error'])
+    })
+
+    const second = renderHook(() => useSlideTextures({ slides }))
+    await waitFor(() => {
+      expect(second.result.current.loadStates).toEqual(['loaded'])
+    })
+    const texture = second.result.current.textures[0]!.texture
+
+    first.unmount()
+    await flushMicrotasks()
+
+    expect(texture.dispose).not.toHaveBeenCalled()
+    second.unmount()
+  })
+
+  it('keeps content textures apart for slides that share an id', async () => {
+    const slidesA = [{ id: 1, content: createElement('h1', null, 'A') }]
+    const slidesB = [{ id: 1, content: createElement('h1', null, 'B') }]
+
+    const first = renderHook(() => useSlideTextures({ slides: slidesA }))
+    const second = renderHook(() => useSlideTextures({ slides: slidesB }))
+
+    await waitFor(() => {
+      expect(first.result.current.loadStates).toEqual(['loaded'])
+      expect(second.result.current.loadStates).toEqual(['loaded'])
+    })
+
+    expect(createContentTexture).toHaveBeenCalledTimes(2)
+    expect(first.result.current.textures[0]).not.toBe(second.result.current.textures[0])
+  })
+
+  it('re-renders content that changes without a new id', async () => {
+    const { result, rerender } = renderHook(
+      ({ slides }) => useSlideTextures({ slides }),
+      { initialProps: { slides: [{ id: 1, content: 'Before edit' }] } }
+    )
+
+    await waitFor(() => {
+      expect(result.current.loadStates).toEqual(['loaded'])
+    })
+    const before = result.current.textures[0]
+
+    rerender({ slides: [{ id: 1, content: 'After edit' }] })
+
+    await waitFor(() => {
+      expect(result.current.loadStates).toEqual(['loaded'])
+      expect(result.current.textures[0]).not.toBe(before)
+    })
+    expect(vi.mocked(createContentTexture).mock.calls[1][0]).toBe('After edit')
+  })
+
+  describe('preload strategy', () => {
+    it('loads every slide with eager', () => {
+      expect(getPreloadIndices(0, 4, 'eager')).toEqual([0, 1, 3, 2])
+    })
+
+    it('loads immediate neighbours with adjacent, wrapping around', () => {
+      expect(getPreloadIndices(0, 5, 'adjacent')).toEqual([0, 1, 4])
+      expect(getPreloadIndices(2, 5, 'adjacent')).toEqual([2, 3, 1])
+    })
+
+    it('loads N neighbours on each side for a number', () => {
+      expect(getPreloadIndices(5, 10, 2)).toEqual([5, 6, 4, 7, 3])
+      expect(getPreloadIndices(1, 10, 0)).toEqual([1])
+    })
+
+    it('loads the current slide first and more as it changes', async () => {
+      const slides = [
+        { id: 1, image: 'lazy-a.jpg' },
+        { id: 2, image: 'lazy-b.jpg' },
+        { id: 3, image: 'lazy-c.jpg' },
+        { id: 4, image: 'lazy-d.jpg' },
+        { id: 5, image: 'lazy-e.jpg' },
+      ]
+
+      const { result, rerender } = renderHook(
+        ({ currentIndex }) => useSlideTextures({ slides, currentIndex, preload: 'adjacent' }),
+        { initialProps: { currentIndex: 0 } }
+      )
+
+      await waitFor(() => {
+        expect(result.current.loadStates).toEqual(['loaded', 'loaded', 'idle', 'idle', 'loaded'])
+      })
+      expect(vi.mocked(loadImageTexture).mock.calls[0][0]).toBe('lazy-a.jpg')
+
+      rerender({ currentIndex: 2 })
+
+      await waitFor(() => {
+        expect(result.current.loadStates).toEqual(['loaded', 'loaded', 'loaded', 'loaded', 'loaded'])
+      })
+      expect(loadImageTexture).toHaveBeenCalledTimes(5)
+    })
+  })
+
+  describe('load callbacks', () => {
+    it('calls onSlideLoad with the natural size', async () => {
+      const onSlideLoad = vi.fn()
+      const slides = [{ id: 1, image: 'callback.jpg' }]
+
+      renderHook(() => useSlideTextures({ slides, onSlideLoad }))
+
+      await waitFor(() => {
+        expect(onSlideLoad).toHaveBeenCalledWith(slides[0], 0, { width: 900, height: 600 })
+      })
+    })
+
+    it('does not report cached slides again when the slides array is recreated', async () => {
+      const onSlideLoad = vi.fn()
+      const makeSlides = () => [
+        { id: 1, image: 'report-once-a.jpg' },
+        { id: 2, image: 'report-once-b.jpg' },
+      ]
+
+      const { result, rerender } = renderHook(
+        ({ slides }) => useSlideTextures({ slides, onSlideLoad }),
+        { initialProps: { slides: makeSlides() } }
+      )
+
+      await waitFor(() => {
+        expect(result.current.loadStates).toEqual(['loaded', 'loaded'])
+      })
+
+      rerender({ slides: makeSlides() })
+      rerender({ slides: makeSlides() })
+      await flushMicrotasks()
+
+      expect(onSlideLoad).toHaveBeenCalledTimes(2)
+    })
+
+    it('reports a slide again when its image changes', async () => {
+      const onSlideLoad = vi.fn()
+
+      const { rerender } = renderHook(
+        ({ slides }) => useSlideTextures({ slides, onSlideLoad }),
+        { initialProps: { slides: [{ id: 1, image: 'report-before.jpg' }] } }
+      )
+
+      await waitFor(() => {
+        expect(onSlideLoad).toHaveBeenCalledTimes(1)
+      })
+
+      rerender({ slides: [{ id: 1, image: 'report-after.jpg' }] })
+
+      await waitFor(() => {
+        expect(onSlideLoad).toHaveBeenCalledTimes(2)
+      })
+    })
+
+    it('calls onSlideLoadError and shows the fallbackImage', async () => {
+      vi.mocked(loadImageTexture).mockImplementation((url) =>
+        url === 'cdn-broken.jpg'
+          ? Promise.reject(new Error(`Failed to load image: ${url}`))
+          : Promise.resolve(createMockTexture(2))
+      )
+      const onSlideLoadError = vi.fn()
+      const slides = [{ id: 1, image: 'cdn-broken.jpg', fallbackImage: 'local-copy.jpg' }]
+
+      const { result } = renderHook(() => useSlideTextures({ slides, onSlideLoadError }))
+
+      await waitFor(() => {
+        expect(result.current.loadStates).toEqual(['error'])
+      })
+      expect(onSlideLoadError).toHaveBeenCalledTimes(1)
+      expect(onSlideLoadError).toHaveBeenCalledWith(slides[0], 0, expect.any(Error))
+      expect(loadImageTexture).toHaveBeenCalledWith('local-copy.jpg')
+      expect(result.current.textures[0]?.imageAspect).toBe(2)
+      expect(createColorTexture).not.toHaveBeenCalled()
+    })
+
+    it('reports both errors when the fallbackImage also fails', async () => {
+      vi.mocked(loadImageTexture).mockImplementation((url) =>
+        Promise.reject(new Error(`Failed to load image: ${url}`))
+      )
+      const onSlideLoadError = vi.fn()
+      const slides = [{ id: 1, image: 'both-broken.jpg', fallbackImage: 'also-broken.jpg' }]
+
+      const { result } = renderHook(() => useSlideTextures({ slides, onSlideLoadError }))
+
+      await waitFor(() => {
+        expect(result.current.loadStates).toEqual(['error'])
+      })
+      expect(onSlideLoadError).toHaveBeenCalledTimes(2)
+      expect(onSlideLoadError.mock.calls[1][2].message).toContain('also-broken.jpg')
+      expect(result.current.textures[0]).toBeDefined()
+    })
+
+    it('does not retry failed slides when the slides array is recreated', async () => {
+      vi.mocked(loadImageTexture).mockImplementation((url) =>
+        url === 'retry-broken.jpg'
+          ? Promise.reject(new Error(`Failed to load image: ${url}`))
+          : Promise.resolve(createMockTexture(2))
+      )
+      const onSlideLoadError = vi.fn()
+      const makeSlides = () => [
+        { id: 1, image: 'retry-broken.jpg', fallbackImage: 'retry-copy.jpg' },
+        { id: 2, image: 'retry-broken.jpg' },
+      ]
+
+      const { result, rerender } = renderHook(
+        ({ slides }) => useSlideTextures({ slides, onSlideLoadError }),
+        { initialProps: { slides: makeSlides() } }
+      )
+
+      await waitFor(() => {
+        expect(result.current.loadStates).toEqual(['error', 'error'])
+      })
+
+      rerender({ slides: makeSlides() })
+      expect(result.current.loadStates).toEqual(['error', 'error'])
+      rerender({ slides: makeSlides() })
+      await flushMicrotasks()
+
+      expect(result.current.loadStates).toEqual(['error', 'error'])
+      expect(result.current.textures[0]?.imageAspect).toBe(2)
+      expect(result.current.textures[1]).toBeDefined()
+      // One shared load of the broken image and one of the fallback
+      expect(loadImageTexture).toHaveBeenCalledTimes(2)
+      expect(onSlideLoadError).toHaveBeenCalledTimes(2)
+    })
+
+    it('reports content that fails to render and shows the placeholder', async () => {
+      vi.mocked(createContentTexture).mockImplementation(() =>
+        Promise.reject(new Error('Failed to render slide content'))
+      )
+      const onSlideLoadError = vi.fn()
+      const slides = [{ id: 'broken-content', content: 'Unrenderable' }]
+
+      const { result } = renderHook(() => useSlideTextures({ slides, onSlideLoadError }))
+
+      await waitFor(() => {
+        expect(result.current.loadStates).toEqual(['error'])
+      })
+      expect(onSlideLoadError).toHaveBeenCalledWith(slides[0], 0, expect.any(Error))
+      expect(createColorTexture).toHaveBeenCalledWith('#333')
+    })
+  })
+})
@@ -0,0 +1,275 @@
+import { useState, useEffect, useRef } from 'react'
+import {
+  SlideData,
+  SlideTexture,
+  SlideLoadState,
+  PreloadStrategy,
+  SlideLoadInfo,
+} from '../types'
+import {
+  acquireTexture,
+  releaseTexture,
+  peekTexture,
+  loadImageTexture,
+  createColorTexture,
+  createContentTexture,
+} from '../utils/textureCache'
+import { getContentKey } from '../utils/contentTexture'
+
+interface UseSlideTexturesOptions {
+  slides: SlideData[]
+  /** Slide to load first; neighbours are loaded around it */
+  currentIndex?: number
+  /** Which slides to load: all of them, the adjacent ones, or N neighbours on each side */
+  preload?: PreloadStrategy
+  /** Aspect ratio content slides are laid out at before rasterizing */
+  contentAspectRatio?: number
+  /** Called when a slide's texture is ready, with the source's pixel size */
+  onSlideLoad?: (slide: SlideData, index: number, info: SlideLoadInfo) => void
+  /** Called for every image that fails to load, including a slide's fallbackImage */
+  onSlideLoadError?: (slide: SlideData, index: number, error: Error) => void
+}
+
+interface LoadSession {
+  cancelled: boolean
+  acquiredKeys: string[]
+  requested: Set<number>
+}
+
+// A slide that failed to load and what it shows instead
+interface SlideFailure {
+  key: string
+  fallbackImage?: string
+  shownKey: string
+}
+
+const ERROR_COLOR = '#333'
+const ERROR_KEY = `color:${ERROR_COLOR}`
+
+// Content has no URL to key on, so content textures are keyed by their rendered
+// markup. Slide ids aren't unique across slideshows sharing the cache
+const getSlideTextureKey = (slide: SlideData, contentAspectRatio: number) => {
+  if (slide.image) return `image:${slide.image}`
+  if (slide.content) {
+    const background = slide.backgroundColor ?? ''
+    return `content:${getContentKey(slide.content)}:${background}:${contentAspectRatio}`
+  }
+  return `color:${slide.backgroundColor || ERROR_COLOR}`
+}
+
+const loadSlideTexture = (slide: SlideData, contentAspectRatio: number) => {
+  if (slide.image) return loadImageTexture(slide.image)
+  if (slide.content) {
+    return createContentTexture(slide.content, contentAspectRatio, slide.backgroundColor)
+  }
+  return createColorTexture(slide.backgroundColor || ERROR_COLOR)
+}
+
+// Record that `key` was reported for `index`; false if it already was
+const markReported = (reported: Map<number, string>, index: number, key: string) => {
+  if (reported.get(index) === key) return false
+  reported.set(index, key)
+  return true
+}
+
+/**
+ * Indices to load for a preload strategy, nearest to currentIndex first.
+ * Neighbours wrap around so the first and last slides preload each other.
+ */
+export const getPreloadIndices = (
+  currentIndex: number,
+  total: number,
+  preload: PreloadStrategy
+): number[] => {
+  if (total === 0) return []
+
+  const radius =
+    preload === 'eager' ? total : preload === 'adjacent' ? 1 : Math.max(0, Math.floor(preload))
+  const start = Math.min(Math.max(currentIndex, 0), total - 1)
+  const indices = [start]
+
+  for (let offset = 1; offset <= radius && indices.length < total; offset++) {
+    for (const index of [start + offset, start - offset]) {
+      const wrapped = ((index % total) + total) % total
+      if (!indices.includes(wrapped)) indices.push(wrapped)
+    }
+  }
+
+  return indices
+}
+
+export function useSlideTextures({
+  slides,
+  currentIndex = 0,
+  preload = 'eager',
+  contentAspectRatio = 3 / 2,
+  onSlideLoad,
+  onSlideLoadError,
+}: UseSlideTexturesOptions) {
+  const [textures, setTextures] = useState<(SlideTexture | undefined)[]>([])
+  const [loadStates, setLoadStates] = useState<SlideLoadState[]>([])
+  const sessionRef = useRef<LoadSession | null>(null)
+  // Texture key last reported through onSlideLoad for each index, so a new
+  // slides array that re-keys to the same cached textures doesn't report again
+  const reportedRef = useRef(new Map<number, string>())
+  // Failed slides by index, so a new slides array shows their fallback again
+  // instead of re-downloading a broken image and reporting it a second time
+  const failedRef = useRef(new Map<number, SlideFailure>())
+
+  // Callbacks in refs so inline handlers don't restart loading every render
+  const onSlideLoadRef = useRef(onSlideLoad)
+  const onSlideLoadErrorRef = useRef(onSlideLoadError)
+  onSlideLoadRef.current = onSlideLoad
+  onSlideLoadErrorRef.current = onSlideLoadError
+
+  // A new session per slides array; loaded textures are released when it ends
+  useEffect(() => {
+    const session: LoadSession = { cancelled: false, acquiredKeys: [], requested: new Set() }
+    sessionRef.current = session
+
+    // Cached textures are acquired right away so nobody disposes them under us
+    const hold = (index: number, key: string, texture: SlideTexture) => {
+      session.requested.add(index)
+      session.acquiredKeys.push(key)
+      acquireTexture(key, () => Promise.resolve(texture))
+    }
+
+    // Start from whatever is already cached so re-renders with a new slides
+    // array (or a remounted scene) don't flash back to a loading state
+    const states: SlideLoadState[] = []
+    const cached = slides.map((slide, index) => {
+      const key = getSlideTextureKey(slide, contentAspectRatio)
+      const texture = peekTexture(key)
+      if (texture) {
+        hold(index, key, texture)
+        if (markReported(reportedRef.current, index, key)) {
+          onSlideLoadRef.current?.(slide, index, { width: texture.width, height: texture.height })
+        }
+        states[index] = 'loaded'
+        return texture
+      }
+
+      const failure = failedRef.current.get(index)
+      const shown =
+        failure?.key === key && failure.fallbackImage === slide.fallbackImage
+          ? peekTexture(failure.shownKey)
+          : null
+      if (failure && shown) {
+        hold(index, failure.shownKey, shown)
+        states[index] = 'error'
+        return shown
+      }
+
+      states[index] = 'idle'
+      return undefined
+    })
+    setTextures(cached)
+    setLoadStates(states)
+
+    return () => {
+      session.cancelled = true
+      session.acquiredKeys.forEach(releaseTexture)
+      if (sessionRef.current === session) sessionRef.current = null
+    }
+  }, [slides, contentAspectRatio])
+
+  // Load the slides the strategy wants around the current one
+  useEffect(() => {
+    const session = sessionRef.current
+    if (!session) return
+
+    const update = (index: number, texture: SlideTexture, state: SlideLoadState) => {
+      if (session.cancelled) return
+      setTextures((prev) => {
+        const next = [...prev]
+        next[index] = texture
+        return next
+      })
+      setLoadStates((prev) => {
+        const next = [...prev]
+        next[index] = state
+        return next
+      })
+    }
+
+    const acquire = (key: string, load: () => Promise<SlideTexture>) => {
+      session.acquiredKeys.push(key)
+      const promise = acquireTexture(key, load)
+      // A failed load leaves the cache holding no reference for us, and releasing
+      // its key later would take one from whoever loads that key next
+      promise.catch(() => {
+        const position = session.acquiredKeys.indexOf(key)
+        if (position !== -1) session.acquiredKeys.splice(position, 1)
+      })
+      return promise
+    }
+
+    for (const index of getPreloadIndices(currentIndex, slides.length, preload)) {
+      if (session.requested.has(index)) continue
+      session.requested.add(index)
+      setLoadStates((prev) => {
+        const next = [...prev]
+        next[index] = 'loading'
+        return next
+      })
+
+      const slide = slides[index]
+      const key = getSlideTextureKey(slide, contentAspectRatio)
+
+      const reportError = (error: unknown) => {
+        if (session.cancelled) return
+        onSlideLoadErrorRef.current?.(
+          slide,
+          index,
+          error instanceof Error ? error : new Error(String(error))
+        )
+      }
+
+      // Show the fallback or placeholder, remembering it for later slides arrays
+      const showInstead = (shownKey: string, texture: SlideTexture) => {
+        if (session.cancelled) return
+        failedRef.current.set(index, { key, fallbackImage: slide.fallbackImage, shownKey })
+        update(index, texture, 'error')
+      }
+
+      const showPlaceholder = () => {
+        if (session.cancelled) return
+        acquire(ERROR_KEY, () => createColorTexture(ERROR_COLOR)).then((texture) =>
+          showInstead(ERROR_KEY, texture)
+        )
+      }
+
+      // Primary texture, then the slide's fallbackImage, then a grey placeholder
+      acquire(key, () => loadSlideTexture(slide, contentAspectRatio)).then(
+        (texture) => {
+          if (session.cancelled) return
+          failedRef.current.delete(index)
+          update(index, texture, 'loaded')
+          if (markReported(reportedRef.current, index, key)) {
+            onSlideLoadRef.current?.(slide, index, { width: texture.width, height: texture.height })
+          }
+        },
+        (error) => {
+          if (session.cancelled) return
+          reportError(error)
+
+          const { fallbackImage } = slide
+          if (!fallbackImage) {
+            showPlaceholder()
+            return
+          }
+
+          const fallbackKey = `image:${fallbackImage}`
+          acquire(fallbackKey, () => loadImageTexture(fallbackImage))
+            .then((texture) => showInstead(fallbackKey, texture))
+            .catch((fallbackError) => {
+              reportError(fallbackError)
+              showPlaceholder()
+            })
+        }
+      )
+    }
+  }, [slides, contentAspectRatio, currentIndex, preload])
+
+  return { textures, loadStates }
+}
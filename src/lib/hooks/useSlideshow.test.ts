@@ -110,6 +110,24 @@ describe('useSlideshow', () => {
       })
       expect(result.current.currentIndex).toBe(1)
     })
+
+    it('goTo() with animate: false skips the transition', () => {
+      const { result } = renderHook(() =>
+        useSlideshow({ slides: mockSlides })
+      )
+      expect(result.current.animate).toBe(true)
+
+      act(() => {
+        result.current.goTo(2, { animate: false })
+      })
+      expect(result.current.currentIndex).toBe(2)
+      expect(result.current.animate).toBe(false)
+
+      act(() => {
+        result.current.prev()
+      })
+      expect(result.current.animate).toBe(true)
+    })
   })
 
   describe('loop behavior', () => {
@@ -266,6 +284,509 @@ describe('useSlideshow', () => {
     })
   })
 
+  describe('autoplay timing', () => {
+    it('reports elapsed and remaining time', () => {
+      const { result } = renderHook(() =>
+        useSlideshow({ slides: mockSlides, autoPlay: true, autoPlayInterval: 1000 })
+      )
+
+      act(() => {
+        vi.advanceTimersByTime(300)
+      })
+
+      expect(result.current.autoPlayDuration).toBe(1000)
+      expect(result.current.getAutoPlayElapsed()).toBe(300)
+      expect(result.current.getAutoPlayRemaining()).toBe(700)
+    })
+
+    it('freezes while paused', () => {
+      const { result } = renderHook(() =>
+        useSlideshow({ slides: mockSlides, autoPlay: true, autoPlayInterval: 1000 })
+      )
+
+      act(() => {
+        vi.advanceTimersByTime(400)
+        result.current.pause()
+      })
+      act(() => {
+        vi.advanceTimersByTime(2000)
+      })
+
+      expect(result.current.getAutoPlayElapsed()).toBe(400)
+    })
+
+    it('resets on manual navigation', () => {
+      const { result } = renderHook(() =>
+        useSlideshow({ slides: mockSlides, autoPlay: true, autoPlayInterval: 1000 })
+      )
+
+      act(() => {
+        vi.advanceTimersByTime(800)
+      })
+      act(() => {
+        result.current.goTo(2)
+      })
+
+      expect(result.current.getAutoPlayElapsed()).toBe(0)
+
+      act(() => {
+        vi.advanceTimersByTime(800)
+      })
+      expect(result.current.currentIndex).toBe(2)
+
+      act(() => {
+        vi.advanceTimersByTime(200)
+      })
+      expect(result.current.currentIndex).toBe(0)
+    })
+
+    it('resets on navigation while paused', () => {
+      const { result } = renderHook(() =>
+        useSlideshow({ slides: mockSlides, autoPlay: true, autoPlayInterval: 1000 })
+      )
+
+      act(() => {
+        vi.advanceTimersByTime(600)
+        result.current.pause()
+      })
+      act(() => {
+        result.current.next()
+      })
+
+      expect(result.current.getAutoPlayElapsed()).toBe(0)
+    })
+
+    it('keeps the remaining time across pause and resume', () => {
+      const { result } = renderHook(() =>
+        useSlideshow({ slides: mockSlides, autoPlay: true, autoPlayInterval: 1000 })
+      )
+
+      act(() => {
+        vi.advanceTimersByTime(900)
+        result.current.pause()
+      })
+      act(() => {
+        vi.advanceTimersByTime(5000)
+        result.current.resume()
+      })
+
+      expect(result.current.getAutoPlayRemaining()).toBe(100)
+
+      act(() => {
+        vi.advanceTimersByTime(100)
+      })
+      expect(result.current.currentIndex).toBe(1)
+    })
+
+    it('starts over after stopping and playing again', () => {
+      const { result } = renderHook(() =>
+        useSlideshow({ slides: mockSlides, autoPlay: true, autoPlayInterval: 1000 })
+      )
+
+      act(() => {
+        vi.advanceTimersByTime(700)
+        result.current.stop()
+      })
+      act(() => {
+        result.current.play()
+      })
+
+      expect(result.current.getAutoPlayRemaining()).toBe(1000)
+    })
+
+    it('restarts after the user navigates, even if the change is vetoed', () => {
+      const { result } = renderHook(() =>
+        useSlideshow({
+          slides: mockSlides,
+          autoPlay: true,
+          autoPlayInterval: 1000,
+          onBeforeSlideChange: (_from, to) => to !== 2,
+        })
+      )
+
+      act(() => {
+        vi.advanceTimersByTime(1000)
+      })
+      act(() => {
+        vi.advanceTimersByTime(600)
+        result.current.goTo(2)
+      })
+
+      expect(result.current.currentIndex).toBe(1)
+      expect(result.current.getAutoPlayElapsed()).toBe(0)
+    })
+
+    it('uses each slide\'s own duration', () => {
+      const slides = [
+        { id: 1, image: 'slide1.jpg', duration: 3000 },
+        { id: 2, image: 'slide2.jpg' },
+        { id: 3, image: 'slide3.jpg' },
+      ]
+      const { result } = renderHook(() =>
+        useSlideshow({ slides, autoPlay: true, autoPlayInterval: 1000 })
+      )
+
+      expect(result.current.autoPlayDuration).toBe(3000)
+
+      act(() => {
+        vi.advanceTimersByTime(2999)
+      })
+      expect(result.current.currentIndex).toBe(0)
+
+      act(() => {
+        vi.advanceTimersByTime(1)
+      })
+      expect(result.current.currentIndex).toBe(1)
+      expect(result.current.autoPlayDuration).toBe(1000)
+
+      act(() => {
+        vi.advanceTimersByTime(1000)
+      })
+      expect(result.current.currentIndex).toBe(2)
+    })
+
+    it('holds while suspended and carries on afterwards', () => {
+      const { result, rerender } = renderHook(
+        ({ suspended }) =>
+          useSlideshow({ slides: mockSlides, autoPlay: true, autoPlayInterval: 1000, suspended }),
+        { initialProps: { suspended: false } }
+      )
+
+      act(() => {
+        vi.advanceTimersByTime(600)
+      })
+      rerender({ suspended: true })
+      act(() => {
+        vi.advanceTimersByTime(5000)
+      })
+
+      expect(result.current.currentIndex).toBe(0)
+      expect(result.current.isPlaying).toBe(true)
+
+      rerender({ suspended: false })
+      act(() => {
+        vi.advanceTimersByTime(400)
+      })
+      expect(result.current.currentIndex).toBe(1)
+    })
+
+    it('starts over on the same slide when the change is vetoed', () => {
+      const { result } = renderHook(() =>
+        useSlideshow({
+          slides: mockSlides,
+          autoPlay: true,
+          autoPlayInterval: 1000,
+          onBeforeSlideChange: () => false,
+        })
+      )
+
+      act(() => {
+        vi.advanceTimersByTime(1250)
+      })
+
+      expect(result.current.currentIndex).toBe(0)
+      expect(result.current.getAutoPlayElapsed()).toBe(250)
+    })
+  })
+
+  describe('playback control', () => {
+    it('play() starts autoplay when autoPlay=false', () => {
+      const { result } = renderHook(() =>
+        useSlideshow({ slides: mockSlides, autoPlayInterval: 1000 })
+      )
+      expect(result.current.isPlaying).toBe(false)
+
+      act(() => {
+        result.current.play()
+      })
+      expect(result.current.isPlaying).toBe(true)
+
+      act(() => {
+        vi.advanceTimersByTime(1000)
+      })
+      expect(result.current.currentIndex).toBe(1)
+    })
+
+    it('stop() halts autoplay regardless of pauseOnHover', () => {
+      const { result } = renderHook(() =>
+        useSlideshow({
+          slides: mockSlides,
+          autoPlay: true,
+          autoPlayInterval: 1000,
+          pauseOnHover: false,
+        })
+      )
+
+      act(() => {
+        result.current.stop()
+      })
+      expect(result.current.isPlaying).toBe(false)
+
+      act(() => {
+        vi.advanceTimersByTime(3000)
+      })
+      expect(result.current.currentIndex).toBe(0)
+    })
+
+    it('togglePlay() flips between playing and stopped', () => {
+      const { result } = renderHook(() =>
+        useSlideshow({ slides: mockSlides, autoPlay: true })
+      )
+
+      act(() => {
+        result.current.togglePlay()
+      })
+      expect(result.current.isPlaying).toBe(false)
+
+      act(() => {
+        result.current.togglePlay()
+      })
+      expect(result.current.isPlaying).toBe(true)
+    })
+
+    it('stays playing while paused on hover', () => {
+      const { result } = renderHook(() =>
+        useSlideshow({ slides: mockSlides, autoPlay: true, autoPlayInterval: 1000 })
+      )
+
+      act(() => {
+        result.current.pause()
+      })
+      expect(result.current.isPlaying).toBe(true)
+    })
+  })
+
+  describe('onBeforeSlideChange', () => {
+    it('vetoes navigation when it returns false', () => {
+      const onBeforeSlideChange = vi.fn(() => false)
+      const { result } = renderHook(() =>
+        useSlideshow({ slides: mockSlides, onBeforeSlideChange })
+      )
+
+      act(() => {
+        result.current.next()
+      })
+      act(() => {
+        result.current.goTo(2)
+      })
+
+      expect(result.current.currentIndex).toBe(0)
+      expect(onBeforeSlideChange).toHaveBeenCalledWith(0, 1)
+      expect(onBeforeSlideChange).toHaveBeenCalledWith(0, 2)
+    })
+
+    it('allows navigation when it returns true or nothing', () => {
+      const { result } = renderHook(() =>
+        useSlideshow({ slides: mockSlides, onBeforeSlideChange: (_from, to) => (to === 1 ? true : undefined) })
+      )
+
+      act(() => {
+        result.current.next()
+      })
+      expect(result.current.currentIndex).toBe(1)
+
+      act(() => {
+        result.current.next()
+      })
+      expect(result.current.currentIndex).toBe(2)
+    })
+
+    it('waits for a Promise before navigating', async () => {
+      let resolve: (allowed: boolean) => void = () => {}
+      const { result } = renderHook(() =>
+        useSlideshow({
+          slides: mockSlides,
+          onBeforeSlideChange: () => new Promise<boolean>((r) => (resolve = r)),
+        })
+      )
+
+      act(() => {
+        result.current.next()
+      })
+      expect(result.current.currentIndex).toBe(0)
+
+      await act(async () => {
+        resolve(true)
+      })
+      expect(result.current.currentIndex).toBe(1)
+      expect(result.current.direction).toBe('next')
+    })
+
+    it('vetoes navigation when the Promise resolves to false or rejects', async () => {
+      const { result } = renderHook(() =>
+        useSlideshow({
+          slides: mockSlides,
+          onBeforeSlideChange: (_from, to) =>
+            to === 1 ? Promise.resolve(false) : Promise.reject(new Error('Not allowed')),
+        })
+      )
+
+      await act(async () => {
+        result.current.next()
+      })
+      await act(async () => {
+        result.current.prev()
+      })
+
+      expect(result.current.currentIndex).toBe(0)
+    })
+
+    it('drops a pending navigation when a newer one starts', async () => {
+      const resolvers: ((allowed: boolean) => void)[] = []
+      const { result } = renderHook(() =>
+        useSlideshow({
+          slides: mockSlides,
+          onBeforeSlideChange: () => new Promise<boolean>((r) => resolvers.push(r)),
+        })
+      )
+
+      act(() => {
+        result.current.goTo(1)
+      })
+      act(() => {
+        result.current.goTo(2)
+      })
+
+      await act(async () => {
+        resolvers[1](true)
+      })
+      await act(async () => {
+        resolvers[0](true)
+      })
+
+      expect(result.current.currentIndex).toBe(2)
+    })
+
+    it('reports whether next and prev were accepted', async () => {
+      const { result } = renderHook(() =>
+        useSlideshow({
+          slides: mockSlides,
+          onBeforeSlideChange: (_from, to) => (to === 2 ? Promise.resolve(false) : to === 1),
+        })
+      )
+
+      let accepted: boolean | Promise<boolean> = false
+      act(() => {
+        accepted = result.current.next()
+      })
+      expect(accepted).toBe(true)
+
+      act(() => {
+        accepted = result.current.prev()
+      })
+      expect(accepted).toBe(false)
+
+      await act(async () => {
+        accepted = result.current.next()
+      })
+      await expect(accepted).resolves.toBe(false)
+      expect(result.current.currentIndex).toBe(1)
+    })
+
+    it('guards autoplay', () => {
+      const { result } = renderHook(() =>
+        useSlideshow({
+          slides: mockSlides,
+          autoPlay: true,
+          autoPlayInterval: 1000,
+          onBeforeSlideChange: (_from, to) => to !== 2,
+        })
+      )
+
+      act(() => {
+        vi.advanceTimersByTime(1000)
+      })
+      expect(result.current.currentIndex).toBe(1)
+
+      act(() => {
+        vi.advanceTimersByTime(3000)
+      })
+      expect(result.current.currentIndex).toBe(1)
+    })
+  })
+
+  describe('controlled mode', () => {
+    it('follows the currentIndex prop', () => {
+      const { result, rerender } = renderHook(
+        ({ currentIndex }) => useSlideshow({ slides: mockSlides, currentIndex }),
+        { initialProps: { currentIndex: 1 } }
+      )
+      expect(result.current.currentIndex).toBe(1)
+
+      rerender({ currentIndex: 2 })
+      expect(result.current.currentIndex).toBe(2)
+      expect(result.current.direction).toBe('next')
+
+      rerender({ currentIndex: 0 })
+      expect(result.current.currentIndex).toBe(0)
+      expect(result.current.direction).toBe('prev')
+    })
+
+    it('requests changes through onSlideChange without moving itself', () => {
+      const onSlideChange = vi.fn()
+      const { result } = renderHook(() =>
+        useSlideshow({ slides: mockSlides, currentIndex: 0, onSlideChange })
+      )
+      expect(onSlideChange).not.toHaveBeenCalled()
+
+      act(() => {
+        result.current.next()
+      })
+
+      expect(onSlideChange).toHaveBeenCalledWith(1)
+      expect(result.current.currentIndex).toBe(0)
+    })
+
+    it('keeps the navigation direction when the owner accepts a wrap-around', () => {
+      const { result, rerender } = renderHook(
+        ({ currentIndex }) =>
+          useSlideshow({ slides: mockSlides, currentIndex, onSlideChange: () => {} }),
+        { initialProps: { currentIndex: 2 } }
+      )
+
+      act(() => {
+        result.current.next()
+      })
+      rerender({ currentIndex: 0 })
+
+      expect(result.current.currentIndex).toBe(0)
+      expect(result.current.direction).toBe('next')
+    })
+
+    it('keeps animate: false from goTo', () => {
+      const { result, rerender } = renderHook(
+        ({ currentIndex }) =>
+          useSlideshow({ slides: mockSlides, currentIndex, onSlideChange: () => {} }),
+        { initialProps: { currentIndex: 0 } }
+      )
+
+      act(() => {
+        result.current.goTo(2, { animate: false })
+      })
+      rerender({ currentIndex: 2 })
+
+      expect(result.current.animate).toBe(false)
+    })
+
+    it('runs onBeforeSlideChange before requesting a change', () => {
+      const onSlideChange = vi.fn()
+      const { result } = renderHook(() =>
+        useSlideshow({
+          slides: mockSlides,
+          currentIndex: 0,
+          onSlideChange,
+          onBeforeSlideChange: () => false,
+        })
+      )
+
+      act(() => {
+        result.current.next()
+      })
+
+      expect(onSlideChange).not.toHaveBeenCalled()
+    })
+  })
+
   describe('callbacks', () => {
     it('calls onSlideChange when slide changes', () => {
       const onSlideChange = vi.fn()
@@ -1,60 +1,156 @@
 import { useState, useCallback, useEffect, useRef } from 'react'
-import { SlideData } from '../types'
+import { SlideData, GoToOptions } from '../types'
 
 interface UseSlideshowOptions {
   slides: SlideData[]
+  /** Controlled index. When set, navigation calls onSlideChange instead of changing slides itself */
+  currentIndex?: number
   initialSlide?: number
   autoPlay?: boolean
   autoPlayInterval?: number
   loop?: boolean
   pauseOnHover?: boolean
+  /** Hold autoplay, keeping the remaining time, e.g. while the slideshow can't be seen */
+  suspended?: boolean
   onSlideChange?: (index: number) => void
+  /** Return false, or a Promise of false, to veto navigating from one slide to another */
+  onBeforeSlideChange?: (from: number, to: number) => boolean | void | Promise<boolean | void>
+}
+
+interface NavigationRequest {
+  to: number
+  direction: 'next' | 'prev'
+  animate: boolean
 }
 
 export function useSlideshow({
   slides,
+  currentIndex: controlledIndex,
   initialSlide = 0,
   autoPlay = false,
   autoPlayInterval = 5000,
   loop = true,
   pauseOnHover = true,
+  suspended = false,
   onSlideChange,
+  onBeforeSlideChange,
 }: UseSlideshowOptions) {
-  const [currentIndex, setCurrentIndex] = useState(initialSlide)
+  const [internalIndex, setInternalIndex] = useState(initialSlide)
   const [isPaused, setIsPaused] = useState(false)
+  const [isPlaying, setIsPlaying] = useState(autoPlay)
   const [direction, setDirection] = useState<'next' | 'prev'>('next')
-  const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null)
+  // Whether the latest index change should animate (false for goTo with animate: false)
+  const [animate, setAnimate] = useState(true)
+  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  // Autoplay countdown: time run before the current stretch, and when that stretch started
+  const elapsedRef = useRef(0)
+  const runStartRef = useRef<number | null>(null)
+  // Bumped to start the countdown over, e.g. after the user navigates
+  const [countdownId, setCountdownId] = useState(0)
 
   const totalSlides = slides.length
+  const isControlled = controlledIndex !== undefined
+  const currentIndex = isControlled
+    ? Math.min(Math.max(controlledIndex, 0), Math.max(totalSlides - 1, 0))
+    : internalIndex
+
+  // Navigation reads the index from a ref so calls made before a re-render
+  // (or after an async guard resolves) see the latest slide
+  const currentIndexRef = useRef(currentIndex)
+  const navigationIdRef = useRef(0)
+  const onBeforeSlideChangeRef = useRef(onBeforeSlideChange)
+  const onSlideChangeRef = useRef(onSlideChange)
+  onBeforeSlideChangeRef.current = onBeforeSlideChange
+  onSlideChangeRef.current = onSlideChange
+
+  // In controlled mode the index changes from outside, so derive direction and
+  // animate while rendering. Changes we asked for keep the direction we navigated in
+  const [lastRequest, setLastRequest] = useState<NavigationRequest | null>(null)
+  const [prevControlledIndex, setPrevControlledIndex] = useState(currentIndex)
+  if (isControlled) {
+    currentIndexRef.current = currentIndex
+    if (currentIndex !== prevControlledIndex) {
+      const requested = lastRequest?.to === currentIndex ? lastRequest : null
+      setPrevControlledIndex(currentIndex)
+      setLastRequest(null)
+      setDirection(requested?.direction ?? (currentIndex > prevControlledIndex ? 'next' : 'prev'))
+      setAnimate(requested?.animate ?? true)
+    }
+  }
+
+  const restartCountdown = useCallback(() => {
+    elapsedRef.current = 0
+    if (runStartRef.current !== null) runStartRef.current = Date.now()
+    setCountdownId((id) => id + 1)
+  }, [])
 
   const canGoNext = loop || currentIndex < totalSlides - 1
   const canGoPrev = loop || currentIndex > 0
 
+  // Ask onBeforeSlideChange before changing slides. Only the latest navigation
+  // can complete, so a slow guard never overrides a newer one. Resolves whether
+  // the slide changed, synchronously unless the guard returned a Promise
+  const navigate = useCallback(
+    (
+      to: number,
+      navDirection: 'next' | 'prev',
+      shouldAnimate = true
+    ): boolean | Promise<boolean> => {
+      const from = currentIndexRef.current
+      if (to === from) return false
+
+      // Any attempt to navigate gives the viewer a full countdown, even if it's vetoed
+      restartCountdown()
+
+      const navigationId = ++navigationIdRef.current
+      const commit = (allowed: boolean | void) => {
+        if (allowed === false) return false
+        if (navigationId !== navigationIdRef.current || currentIndexRef.current !== from) {
+          return false
+        }
+
+        if (isControlled) {
+          // Ask the owner to change slides; direction is applied once it does
+          setLastRequest({ to, direction: navDirection, animate: shouldAnimate })
+          onSlideChangeRef.current?.(to)
+          return true
+        }
+
+        currentIndexRef.current = to
+        setDirection(navDirection)
+        setAnimate(shouldAnimate)
+        setInternalIndex(to)
+        return true
+      }
+
+      const result = onBeforeSlideChangeRef.current?.(from, to)
+      if (result instanceof Promise) {
+        // A rejected guard vetoes the navigation
+        return result.then(commit, () => false)
+      }
+      return commit(result)
+    },
+    [isControlled, restartCountdown]
+  )
+
   const next = useCallback(() => {
-    if (!canGoNext) return
-    setDirection('next')
-    setCurrentIndex((prev) => {
-      const nextIndex = prev >= totalSlides - 1 ? 0 : prev + 1
-      return nextIndex
-    })
-  }, [canGoNext, totalSlides])
+    const from = currentIndexRef.current
+    if (!loop && from >= totalSlides - 1) return false
+    return navigate(from >= totalSlides - 1 ? 0 : from + 1, 'next')
+  }, [loop, totalSlides, navigate])
 
   const prev = useCallback(() => {
-    if (!canGoPrev) return
-    setDirection('prev')
-    setCurrentIndex((prev) => {
-      const prevIndex = prev <= 0 ? totalSlides - 1 : prev - 1
-      return prevIndex
-    })
-  }, [canGoPrev, totalSlides])
+    const from = currentIndexRef.current
+    if (!loop && from <= 0) return false
+    return navigate(from <= 0 ? totalSlides - 1 : from - 1, 'prev')
+  }, [loop, totalSlides, navigate])
 
   const goTo = useCallback(
-    (index: number) => {
+    (index: number, options: GoToOptions = {}) => {
       if (index < 0 || index >= totalSlides) return
-      setDirection(index > currentIndex ? 'next' : 'prev')
-      setCurrentIndex(index)
+      navigate(index, index > currentIndexRef.current ? 'next' : 'prev', options.animate ?? true)
     },
-    [currentIndex, totalSlides]
+    [totalSlides, navigate]
   )
 
   const pause = useCallback(() => {
@@ -67,30 +163,104 @@ export function useSlideshow({
     setIsPaused(false)
   }, [])
 
+  // Start/stop autoplay, independent of the temporary pause on hover
+  const play = useCallback(() => {
+    setIsPlaying(true)
+  }, [])
+
+  const stop = useCallback(() => {
+    setIsPlaying(false)
+  }, [])
+
+  const togglePlay = useCallback(() => {
+    setIsPlaying((playing) => !playing)
+  }, [])
+
   useEffect(() => {
-    onSlideChange?.(currentIndex)
-  }, [currentIndex, onSlideChange])
+    setIsPlaying(autoPlay)
+  }, [autoPlay])
 
+  // Controlled slideshows report changes as requests from navigate instead
   useEffect(() => {
-    if (autoPlay && !isPaused) {
-      intervalRef.current = setInterval(next, autoPlayInterval)
+    if (!isControlled) onSlideChange?.(currentIndex)
+  }, [currentIndex, onSlideChange, isControlled])
+
+  /** Time in ms the autoplay countdown has run on the current slide. Holds still while paused */
+  const getAutoPlayElapsed = useCallback(
+    () =>
+      elapsedRef.current + (runStartRef.current === null ? 0 : Date.now() - runStartRef.current),
+    []
+  )
+
+  const autoPlayDuration = slides[currentIndex]?.duration ?? autoPlayInterval
+
+  /** Time in ms until autoplay moves on */
+  const getAutoPlayRemaining = useCallback(
+    () => Math.max(autoPlayDuration - getAutoPlayElapsed(), 0),
+    [autoPlayDuration, getAutoPlayElapsed]
+  )
+
+  // A new slide starts a new countdown, even while paused
+  useEffect(() => {
+    elapsedRef.current = 0
+  }, [currentIndex])
+
+  // Stopping starts over; only the pause on hover keeps the remaining time
+  useEffect(() => {
+    if (!isPlaying) elapsedRef.current = 0
+  }, [isPlaying])
+
+  useEffect(() => {
+    if (!isPlaying || isPaused || suspended) return
+
+    // Pick up where a pause left off
+    runStartRef.current = Date.now()
+
+    const tick = () => {
+      // Count down again in case the change is vetoed
+      elapsedRef.current = 0
+      runStartRef.current = Date.now()
+      timeoutRef.current = setTimeout(tick, autoPlayDuration)
+      next()
     }
+    timeoutRef.current = setTimeout(tick, Math.max(autoPlayDuration - elapsedRef.current, 0))
 
     return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current)
+      if (timeoutRef.current) {
+        clearTimeout(timeoutRef.current)
       }
+      // Freeze the countdown where it stopped, e.g. while paused on hover
+      elapsedRef.current = getAutoPlayElapsed()
+      runStartRef.current = null
     }
-  }, [autoPlay, autoPlayInterval, isPaused, next])
+  }, [
+    isPlaying,
+    isPaused,
+    suspended,
+    autoPlayDuration,
+    currentIndex,
+    countdownId,
+    next,
+    getAutoPlayElapsed,
+  ])
 
   return {
     currentIndex,
     direction,
+    animate,
     next,
     prev,
     goTo,
     pause,
     resume,
+    play,
+    stop,
+    togglePlay,
+    isPlaying,
+    /** Length in ms of the current slide's autoplay countdown */
+    autoPlayDuration,
+    getAutoPlayElapsed,
+    getAutoPlayRemaining,
     canGoNext,
     canGoPrev,
     totalSlides,
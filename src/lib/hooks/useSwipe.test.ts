@@ -1,5 +1,5 @@
 import { renderHook, act } from '@testing-library/react'
-import { describe, it, expect, vi } from 'vitest'
+import { describe, it, expect, vi, afterEach } from 'vitest'
 import { useSwipe } from './useSwipe'
 
 // Helper to create mock touch events
@@ -7,6 +7,25 @@ const createTouchEvent = (clientX: number): React.TouchEvent => ({
   touches: [{ clientX }] as unknown as React.TouchList,
 } as React.TouchEvent)
 
+// Helper to create mock touch events that move on both axes
+const createTouchPoint = (clientX: number, clientY: number): React.TouchEvent => ({
+  touches: [{ clientX, clientY }] as unknown as React.TouchList,
+} as React.TouchEvent)
+
+// Helper to create mock pointer events
+const createPointerEvent = (
+  clientX: number,
+  overrides: Partial<React.PointerEvent> = {}
+): React.PointerEvent => ({
+  clientX,
+  clientY: 0,
+  pointerId: 1,
+  pointerType: 'touch',
+  isPrimary: true,
+  button: 0,
+  ...overrides,
+} as React.PointerEvent)
+
 // Helper to create mock mouse events
 const createMouseEvent = (clientX: number): React.MouseEvent => ({
   clientX,
@@ -318,4 +337,286 @@ describe('useSwipe', () => {
       expect(onSwipeLeft).not.toHaveBeenCalled()
     })
   })
+
+  describe('drag tracking', () => {
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('reports the distance on every move', () => {
+      const onDrag = vi.fn()
+      const { result } = renderHook(() => useSwipe({ onDrag }))
+
+      act(() => {
+        result.current.handleTouchStart(createTouchEvent(200))
+        result.current.handleTouchMove(createTouchEvent(180))
+        result.current.handleTouchMove(createTouchEvent(120))
+      })
+
+      expect(onDrag).toHaveBeenNthCalledWith(1, -20)
+      expect(onDrag).toHaveBeenNthCalledWith(2, -80)
+    })
+
+    it('reports distance and velocity on release', () => {
+      vi.useFakeTimers()
+      const onDragEnd = vi.fn()
+      const { result } = renderHook(() => useSwipe({ onDragEnd }))
+
+      act(() => {
+        result.current.handleMouseDown(createMouseEvent(100))
+        vi.advanceTimersByTime(10)
+        result.current.handleMouseMove(createMouseEvent(120))
+        vi.advanceTimersByTime(10)
+        result.current.handleMouseMove(createMouseEvent(140))
+        result.current.handleMouseUp()
+      })
+
+      expect(onDragEnd).toHaveBeenCalledTimes(1)
+      const [deltaX, velocityX] = onDragEnd.mock.calls[0]
+      expect(deltaX).toBe(40)
+      // 20px every 10ms, smoothed
+      expect(velocityX).toBeGreaterThan(1.5)
+      expect(velocityX).toBeLessThanOrEqual(2)
+    })
+
+    it('reports no velocity after holding still before release', () => {
+      vi.useFakeTimers()
+      const onDragEnd = vi.fn()
+      const { result } = renderHook(() => useSwipe({ onDragEnd }))
+
+      act(() => {
+        result.current.handleTouchStart(createTouchEvent(200))
+        vi.advanceTimersByTime(10)
+        result.current.handleTouchMove(createTouchEvent(100))
+        vi.advanceTimersByTime(500)
+        result.current.handleTouchEnd()
+      })
+
+      expect(onDragEnd).toHaveBeenCalledWith(-100, 0)
+    })
+
+    it('does not report a drag for a tap', () => {
+      const onDragEnd = vi.fn()
+      const { result } = renderHook(() => useSwipe({ onDragEnd }))
+
+      act(() => {
+        result.current.handleTouchStart(createTouchEvent(200))
+        result.current.handleTouchEnd()
+      })
+
+      expect(onDragEnd).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('flick detection', () => {
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('swipes on a short, fast flick', () => {
+      vi.useFakeTimers()
+      const onSwipeLeft = vi.fn()
+      const { result } = renderHook(() => useSwipe({ onSwipeLeft, threshold: 50 }))
+
+      act(() => {
+        result.current.handleTouchStart(createTouchEvent(200))
+        vi.advanceTimersByTime(20)
+        result.current.handleTouchMove(createTouchEvent(170)) // 30px in 20ms
+        result.current.handleTouchEnd()
+      })
+
+      expect(onSwipeLeft).toHaveBeenCalledTimes(1)
+    })
+
+    it('does not swipe on a short, slow drag', () => {
+      vi.useFakeTimers()
+      const onSwipeLeft = vi.fn()
+      const { result } = renderHook(() => useSwipe({ onSwipeLeft, threshold: 50 }))
+
+      act(() => {
+        result.current.handleTouchStart(createTouchEvent(200))
+        vi.advanceTimersByTime(300)
+        result.current.handleTouchMove(createTouchEvent(170)) // 30px in 300ms
+        result.current.handleTouchEnd()
+      })
+
+      expect(onSwipeLeft).not.toHaveBeenCalled()
+    })
+
+    it('respects a custom velocity threshold', () => {
+      vi.useFakeTimers()
+      const onSwipeLeft = vi.fn()
+      const { result } = renderHook(() =>
+        useSwipe({ onSwipeLeft, threshold: 50, velocityThreshold: 3 })
+      )
+
+      act(() => {
+        result.current.handleTouchStart(createTouchEvent(200))
+        vi.advanceTimersByTime(20)
+        result.current.handleTouchMove(createTouchEvent(170))
+        result.current.handleTouchEnd()
+      })
+
+      expect(onSwipeLeft).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('axes', () => {
+    it('ignores mostly vertical gestures by default', () => {
+      const onSwipeLeft = vi.fn()
+      const onDrag = vi.fn()
+      const { result } = renderHook(() => useSwipe({ onSwipeLeft, onDrag }))
+
+      act(() => {
+        result.current.handleTouchStart(createTouchPoint(200, 100))
+        result.current.handleTouchMove(createTouchPoint(180, 200))
+        result.current.handleTouchMove(createTouchPoint(120, 300))
+        result.current.handleTouchEnd()
+      })
+
+      expect(onSwipeLeft).not.toHaveBeenCalled()
+      expect(onDrag).not.toHaveBeenCalled()
+    })
+
+    it('detects vertical swipes on the vertical axis', () => {
+      const onSwipeUp = vi.fn()
+      const onSwipeDown = vi.fn()
+      const onSwipeLeft = vi.fn()
+      const { result } = renderHook(() =>
+        useSwipe({ onSwipeUp, onSwipeDown, onSwipeLeft, axis: 'vertical' })
+      )
+
+      act(() => {
+        result.current.handleTouchStart(createTouchPoint(100, 300))
+        result.current.handleTouchMove(createTouchPoint(100, 200))
+        result.current.handleTouchEnd()
+      })
+      act(() => {
+        result.current.handleTouchStart(createTouchPoint(100, 100))
+        result.current.handleTouchMove(createTouchPoint(110, 200))
+        result.current.handleTouchEnd()
+      })
+      act(() => {
+        result.current.handleTouchStart(createTouchPoint(200, 100))
+        result.current.handleTouchMove(createTouchPoint(100, 100))
+        result.current.handleTouchEnd()
+      })
+
+      expect(onSwipeUp).toHaveBeenCalledTimes(1)
+      expect(onSwipeDown).toHaveBeenCalledTimes(1)
+      expect(onSwipeLeft).not.toHaveBeenCalled()
+    })
+
+    it('detects both axes when asked', () => {
+      const onSwipeLeft = vi.fn()
+      const onSwipeDown = vi.fn()
+      const { result } = renderHook(() => useSwipe({ onSwipeLeft, onSwipeDown, axis: 'both' }))
+
+      act(() => {
+        result.current.handleTouchStart(createTouchPoint(200, 100))
+        result.current.handleTouchMove(createTouchPoint(100, 120))
+        result.current.handleTouchEnd()
+      })
+      act(() => {
+        result.current.handleTouchStart(createTouchPoint(100, 100))
+        result.current.handleTouchMove(createTouchPoint(120, 200))
+        result.current.handleTouchEnd()
+      })
+
+      expect(onSwipeLeft).toHaveBeenCalledTimes(1)
+      expect(onSwipeDown).toHaveBeenCalledTimes(1)
+    })
+
+    it('keeps the axis picked at the start of the gesture', () => {
+      const onSwipeLeft = vi.fn()
+      const { result } = renderHook(() => useSwipe({ onSwipeLeft }))
+
+      // Starts out vertical, so the page scrolls even though it ends up sideways
+      act(() => {
+        result.current.handleTouchStart(createTouchPoint(300, 100))
+        result.current.handleTouchMove(createTouchPoint(300, 120))
+        result.current.handleTouchMove(createTouchPoint(100, 130))
+        result.current.handleTouchEnd()
+      })
+
+      expect(onSwipeLeft).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('pointer events', () => {
+    it('swipes with touch, pen and mouse pointers', () => {
+      const onSwipeLeft = vi.fn()
+      const { result } = renderHook(() => useSwipe({ onSwipeLeft }))
+
+      for (const pointerType of ['touch', 'pen', 'mouse'] as const) {
+        act(() => {
+          result.current.handlePointerDown(createPointerEvent(200, { pointerType }))
+          result.current.handlePointerMove(createPointerEvent(100, { pointerType }))
+          result.current.handlePointerUp(createPointerEvent(100, { pointerType }))
+        })
+      }
+
+      expect(onSwipeLeft).toHaveBeenCalledTimes(3)
+    })
+
+    it('ignores secondary pointers and mouse buttons', () => {
+      const onSwipeLeft = vi.fn()
+      const { result } = renderHook(() => useSwipe({ onSwipeLeft }))
+
+      act(() => {
+        result.current.handlePointerDown(createPointerEvent(200, { isPrimary: false }))
+        result.current.handlePointerMove(createPointerEvent(100))
+        result.current.handlePointerUp(createPointerEvent(100))
+      })
+      act(() => {
+        result.current.handlePointerDown(createPointerEvent(200, { pointerType: 'mouse', button: 2 }))
+        result.current.handlePointerMove(createPointerEvent(100, { pointerType: 'mouse' }))
+        result.current.handlePointerUp(createPointerEvent(100, { pointerType: 'mouse' }))
+      })
+
+      expect(onSwipeLeft).not.toHaveBeenCalled()
+    })
+
+    it('ignores moves from other pointers', () => {
+      const onSwipeLeft = vi.fn()
+      const { result } = renderHook(() => useSwipe({ onSwipeLeft }))
+
+      act(() => {
+        result.current.handlePointerDown(createPointerEvent(200))
+        result.current.handlePointerMove(createPointerEvent(100, { pointerId: 2 }))
+        result.current.handlePointerUp(createPointerEvent(100))
+      })
+
+      expect(onSwipeLeft).not.toHaveBeenCalled()
+    })
+
+    it('drops the gesture when the pointer is cancelled', () => {
+      const onSwipeLeft = vi.fn()
+      const onDragEnd = vi.fn()
+      const { result } = renderHook(() => useSwipe({ onSwipeLeft, onDragEnd }))
+
+      act(() => {
+        result.current.handlePointerDown(createPointerEvent(200))
+        result.current.handlePointerMove(createPointerEvent(100))
+        result.current.handlePointerCancel(createPointerEvent(100))
+        result.current.handlePointerUp(createPointerEvent(100))
+      })
+
+      expect(onSwipeLeft).not.toHaveBeenCalled()
+      expect(onDragEnd).not.toHaveBeenCalled()
+    })
+
+    it('finishes the swipe when the pointer leaves mid-drag', () => {
+      const onSwipeLeft = vi.fn()
+      const { result } = renderHook(() => useSwipe({ onSwipeLeft }))
+
+      act(() => {
+        result.current.handlePointerDown(createPointerEvent(200, { pointerType: 'mouse' }))
+        result.current.handlePointerMove(createPointerEvent(100, { pointerType: 'mouse' }))
+        result.current.handlePointerLeave(createPointerEvent(100, { pointerType: 'mouse' }))
+      })
+
+      expect(onSwipeLeft).toHaveBeenCalledTimes(1)
+    })
+  })
 })
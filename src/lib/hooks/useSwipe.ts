@@ -1,55 +1,189 @@
 import { useRef, useCallback } from 'react'
 
+type SwipeAxis = 'horizontal' | 'vertical' | 'both'
+
 interface UseSwipeOptions {
   onSwipeLeft?: () => void
   onSwipeRight?: () => void
+  onSwipeUp?: () => void
+  onSwipeDown?: () => void
+  /** Called on every move of a horizontal drag with the distance from where it started */
+  onDrag?: (deltaX: number) => void
+  /** Called on release after a horizontal drag, with the distance and the release velocity in px/ms */
+  onDragEnd?: (deltaX: number, velocityX: number) => void
+  /** Which swipe directions to detect. Gestures along other axes are left alone, e.g. for page scrolling */
+  axis?: SwipeAxis
+  /** Distance in px past which a gesture counts as a swipe */
   threshold?: number
+  /** Release velocity in px/ms past which a shorter flick also counts as a swipe */
+  velocityThreshold?: number
   enabled?: boolean
 }
 
+interface Point {
+  x: number
+  y: number
+}
+
+// A gesture picks its axis once it has moved this far (px); shorter flicks don't count
+const AXIS_LOCK_DISTANCE = 10
+// Velocity is sampled at most once per frame (ms) so bursts of events don't spike it
+const VELOCITY_SAMPLE_INTERVAL = 16
+// Weight of the newest sample in the smoothed release velocity
+const VELOCITY_SMOOTHING = 0.8
+// Holding still this long (ms) before releasing cancels the fling
+const VELOCITY_TIMEOUT = 100
+
 export function useSwipe({
   onSwipeLeft,
   onSwipeRight,
+  onSwipeUp,
+  onSwipeDown,
+  onDrag,
+  onDragEnd,
+  axis = 'horizontal',
   threshold = 50,
+  velocityThreshold = 0.5,
   enabled = true,
 }: UseSwipeOptions) {
-  const startX = useRef<number | null>(null)
-  const endX = useRef<number | null>(null)
+  const start = useRef<Point | null>(null)
+  const end = useRef<Point | null>(null)
+  // 'rejected' once the gesture turns out to be along an axis we don't handle
+  const lockedAxis = useRef<'x' | 'y' | 'rejected' | null>(null)
   const isDragging = useRef(false)
+  const pointerId = useRef<number | null>(null)
+  const lastSample = useRef({ x: 0, y: 0, time: 0 })
+  const lastMoveTime = useRef(0)
+  const velocity = useRef<Point>({ x: 0, y: 0 })
+
+  const resolveAxis = useCallback(
+    (deltaX: number, deltaY: number) => {
+      const dominant = Math.abs(deltaX) >= Math.abs(deltaY) ? 'x' : 'y'
+      const allowed =
+        axis === 'both' || (axis === 'horizontal' ? dominant === 'x' : dominant === 'y')
+      return allowed ? dominant : 'rejected'
+    },
+    [axis]
+  )
+
+  const reset = useCallback(() => {
+    start.current = null
+    end.current = null
+    lockedAxis.current = null
+  }, [])
+
+  const handleStart = useCallback(
+    (x: number, y: number) => {
+      reset()
+      const now = Date.now()
+      start.current = { x, y }
+      lastSample.current = { x, y, time: now }
+      lastMoveTime.current = now
+      velocity.current = { x: 0, y: 0 }
+    },
+    [reset]
+  )
+
+  const handleMove = useCallback(
+    (x: number, y: number) => {
+      if (start.current === null) return
+      end.current = { x, y }
+
+      const now = Date.now()
+      lastMoveTime.current = now
+      const elapsed = now - lastSample.current.time
+      if (elapsed >= VELOCITY_SAMPLE_INTERVAL) {
+        const sampleX = (x - lastSample.current.x) / elapsed
+        const sampleY = (y - lastSample.current.y) / elapsed
+        velocity.current = {
+          x: VELOCITY_SMOOTHING * sampleX + (1 - VELOCITY_SMOOTHING) * velocity.current.x,
+          y: VELOCITY_SMOOTHING * sampleY + (1 - VELOCITY_SMOOTHING) * velocity.current.y,
+        }
+        lastSample.current = { x, y, time: now }
+      }
+
+      const deltaX = x - start.current.x
+      const deltaY = y - start.current.y
+      if (
+        lockedAxis.current === null &&
+        Math.max(Math.abs(deltaX), Math.abs(deltaY)) >= AXIS_LOCK_DISTANCE
+      ) {
+        lockedAxis.current = resolveAxis(deltaX, deltaY)
+      }
+
+      if (lockedAxis.current === 'x') onDrag?.(deltaX)
+    },
+    [resolveAxis, onDrag]
+  )
 
   const handleSwipeEnd = useCallback(() => {
-    if (!enabled || startX.current === null || endX.current === null)
+    if (!enabled || start.current === null || end.current === null) {
+      reset()
       return
+    }
+
+    const deltaX = end.current.x - start.current.x
+    const deltaY = end.current.y - start.current.y
+    const gestureAxis = lockedAxis.current ?? resolveAxis(deltaX, deltaY)
+    const isFling = Date.now() - lastMoveTime.current <= VELOCITY_TIMEOUT
+    const releaseVelocity = isFling ? velocity.current : { x: 0, y: 0 }
+    reset()
+
+    if (gestureAxis === 'rejected') return
+
+    const distance = gestureAxis === 'x' ? deltaX : deltaY
+    const speed = gestureAxis === 'x' ? releaseVelocity.x : releaseVelocity.y
+
+    if (gestureAxis === 'x') onDragEnd?.(deltaX, releaseVelocity.x)
 
-    const diff = startX.current - endX.current
+    // Far enough, or a quick flick in the same direction it moved
+    const isFlick =
+      Math.abs(distance) >= AXIS_LOCK_DISTANCE &&
+      Math.abs(speed) >= velocityThreshold &&
+      Math.sign(speed) === Math.sign(distance)
+    if (Math.abs(distance) <= threshold && !isFlick) return
 
-    if (Math.abs(diff) > threshold) {
-      if (diff > 0) {
+    if (gestureAxis === 'x') {
+      if (distance < 0) {
         onSwipeLeft?.()
       } else {
         onSwipeRight?.()
       }
+    } else if (distance < 0) {
+      onSwipeUp?.()
+    } else {
+      onSwipeDown?.()
     }
-
-    startX.current = null
-    endX.current = null
-  }, [enabled, threshold, onSwipeLeft, onSwipeRight])
+  }, [
+    enabled,
+    threshold,
+    velocityThreshold,
+    resolveAxis,
+    reset,
+    onSwipeLeft,
+    onSwipeRight,
+    onSwipeUp,
+    onSwipeDown,
+    onDragEnd,
+  ])
 
   // Touch events
   const handleTouchStart = useCallback(
     (e: React.TouchEvent) => {
       if (!enabled) return
-      startX.current = e.touches[0].clientX
+      const touch = e.touches[0]
+      handleStart(touch.clientX, touch.clientY ?? 0)
     },
-    [enabled]
+    [enabled, handleStart]
   )
 
   const handleTouchMove = useCallback(
     (e: React.TouchEvent) => {
       if (!enabled) return
-      endX.current = e.touches[0].clientX
+      const touch = e.touches[0]
+      handleMove(touch.clientX, touch.clientY ?? 0)
     },
-    [enabled]
+    [enabled, handleMove]
   )
 
   const handleTouchEnd = useCallback(() => {
@@ -61,17 +195,17 @@ export function useSwipe({
     (e: React.MouseEvent) => {
       if (!enabled) return
       isDragging.current = true
-      startX.current = e.clientX
+      handleStart(e.clientX, e.clientY ?? 0)
     },
-    [enabled]
+    [enabled, handleStart]
   )
 
   const handleMouseMove = useCallback(
     (e: React.MouseEvent) => {
       if (!enabled || !isDragging.current) return
-      endX.current = e.clientX
+      handleMove(e.clientX, e.clientY ?? 0)
     },
-    [enabled]
+    [enabled, handleMove]
   )
 
   const handleMouseUp = useCallback(() => {
@@ -86,6 +220,47 @@ export function useSwipe({
     handleSwipeEnd()
   }, [handleSwipeEnd])
 
+  // Pointer events - one code path for mouse, touch and pen
+  const handlePointerDown = useCallback(
+    (e: React.PointerEvent) => {
+      if (!enabled || !e.isPrimary) return
+      if (e.pointerType === 'mouse' && e.button !== 0) return
+      isDragging.current = true
+      pointerId.current = e.pointerId
+      handleStart(e.clientX, e.clientY)
+    },
+    [enabled, handleStart]
+  )
+
+  const handlePointerMove = useCallback(
+    (e: React.PointerEvent) => {
+      if (!enabled || !isDragging.current || e.pointerId !== pointerId.current) return
+      handleMove(e.clientX, e.clientY)
+    },
+    [enabled, handleMove]
+  )
+
+  const handlePointerUp = useCallback(
+    (e: React.PointerEvent) => {
+      if (!isDragging.current || e.pointerId !== pointerId.current) return
+      isDragging.current = false
+      pointerId.current = null
+      handleSwipeEnd()
+    },
+    [handleSwipeEnd]
+  )
+
+  // The browser took the gesture over, e.g. to scroll the page
+  const handlePointerCancel = useCallback(
+    (e: React.PointerEvent) => {
+      if (e.pointerId !== pointerId.current) return
+      isDragging.current = false
+      pointerId.current = null
+      reset()
+    },
+    [reset]
+  )
+
   return {
     handleTouchStart,
     handleTouchMove,
@@ -94,5 +269,11 @@ export function useSwipe({
     handleMouseMove,
     handleMouseUp,
     handleMouseLeave,
+    handlePointerDown,
+    handlePointerMove,
+    handlePointerUp,
+    handlePointerCancel,
+    // Leaving the element mid-drag finishes the gesture, like mouse leave
+    handlePointerLeave: handlePointerUp,
   }
 }
@@ -0,0 +1,134 @@
+import { renderHook, act } from '@testing-library/react'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { useUrlSync, getSlideIndexFromUrl } from './useUrlSync'
+
+const mockSlides = [
+  { id: 'intro', image: 'slide1.jpg' },
+  { id: 'features', image: 'slide2.jpg' },
+  { id: 'pricing', image: 'slide3.jpg' },
+]
+
+const setUrl = (url: string) => window.history.replaceState(null, '', url)
+
+describe('getSlideIndexFromUrl', () => {
+  beforeEach(() => {
+    setUrl('/')
+  })
+
+  it('reads a slide id from the hash', () => {
+    setUrl('/#slide=features')
+    expect(getSlideIndexFromUrl(mockSlides)).toBe(1)
+  })
+
+  it('reads a 1-based index from the query string', () => {
+    setUrl('/?slide=3')
+    expect(getSlideIndexFromUrl(mockSlides, { mode: 'query', token: 'index' })).toBe(2)
+  })
+
+  it('returns null for missing or unknown tokens', () => {
+    expect(getSlideIndexFromUrl(mockSlides)).toBeNull()
+
+    setUrl('/#slide=missing')
+    expect(getSlideIndexFromUrl(mockSlides)).toBeNull()
+
+    setUrl('/?slide=9')
+    expect(getSlideIndexFromUrl(mockSlides, { mode: 'query', token: 'index' })).toBeNull()
+  })
+})
+
+describe('useUrlSync', () => {
+  beforeEach(() => {
+    setUrl('/')
+  })
+
+  it('writes the current slide to the hash', () => {
+    const { rerender } = renderHook(
+      ({ currentIndex }) => useUrlSync({ slides: mockSlides, currentIndex, onNavigate: vi.fn() }),
+      { initialProps: { currentIndex: 0 } }
+    )
+    expect(window.location.hash).toBe('#slide=intro')
+
+    rerender({ currentIndex: 2 })
+    expect(window.location.hash).toBe('#slide=pricing')
+  })
+
+  it('keeps other hash and query parameters', () => {
+    setUrl('/?page=2#tab=photos')
+
+    renderHook(() =>
+      useUrlSync({ slides: mockSlides, currentIndex: 1, onNavigate: vi.fn(), param: 'photo' })
+    )
+
+    expect(window.location.search).toBe('?page=2')
+    expect(window.location.hash).toBe('#tab=photos&photo=features')
+  })
+
+  it('leaves anchors and hash-router paths alone', () => {
+    for (const hash of ['#intro', '#/gallery', '#/gallery?slide=2']) {
+      setUrl(`/${hash}`)
+
+      renderHook(() => useUrlSync({ slides: mockSlides, currentIndex: 1, onNavigate: vi.fn() }))
+
+      expect(window.location.hash).toBe(hash)
+      expect(getSlideIndexFromUrl(mockSlides)).toBeNull()
+    }
+  })
+
+  it('replaces history by default and pushes when asked', () => {
+    const pushState = vi.spyOn(window.history, 'pushState')
+    const replaceState = vi.spyOn(window.history, 'replaceState')
+
+    const { rerender } = renderHook(
+      ({ currentIndex }) =>
+        useUrlSync({ slides: mockSlides, currentIndex, onNavigate: vi.fn(), mode: 'query', history: 'push' }),
+      { initialProps: { currentIndex: 0 } }
+    )
+    // The first slide never adds an entry
+    expect(replaceState).toHaveBeenCalledTimes(1)
+    expect(pushState).not.toHaveBeenCalled()
+
+    rerender({ currentIndex: 1 })
+    expect(pushState).toHaveBeenCalledTimes(1)
+    expect(window.location.search).toBe('?slide=features')
+
+    pushState.mockRestore()
+    replaceState.mockRestore()
+  })
+
+  it('navigates when the URL changes', () => {
+    const onNavigate = vi.fn()
+    renderHook(() => useUrlSync({ slides: mockSlides, currentIndex: 0, onNavigate }))
+
+    act(() => {
+      setUrl('/#slide=pricing')
+      window.dispatchEvent(new PopStateEvent('popstate'))
+    })
+
+    expect(onNavigate).toHaveBeenCalledWith(2)
+  })
+
+  it('asks to navigate to a deep link that differs from the current slide', () => {
+    setUrl('/#slide=pricing')
+    const onNavigate = vi.fn()
+
+    renderHook(() => useUrlSync({ slides: mockSlides, currentIndex: 0, onNavigate }))
+
+    expect(onNavigate).toHaveBeenCalledWith(2)
+    expect(window.location.hash).toBe('#slide=pricing')
+  })
+
+  it('does nothing when disabled', () => {
+    const onNavigate = vi.fn()
+    renderHook(() =>
+      useUrlSync({ slides: mockSlides, currentIndex: 1, onNavigate, enabled: false })
+    )
+    expect(window.location.hash).toBe('')
+
+    act(() => {
+      setUrl('/#slide=pricing')
+      window.dispatchEvent(new PopStateEvent('popstate'))
+    })
+
+    expect(onNavigate).not.toHaveBeenCalled()
+  })
+})
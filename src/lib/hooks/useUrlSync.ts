@@ -0,0 +1,122 @@
+import { useEffect, useRef } from 'react'
+import { SlideData, UrlSyncOptions } from '../types'
+
+interface UseUrlSyncOptions extends UrlSyncOptions {
+  slides: SlideData[]
+  currentIndex: number
+  /** Called when the URL points at a different slide, e.g. on browser back/forward */
+  onNavigate: (index: number) => void
+  enabled?: boolean
+}
+
+const resolveOptions = ({
+  mode = 'hash',
+  param = 'slide',
+  token = 'id',
+  history = 'replace',
+}: UrlSyncOptions = {}): Required<UrlSyncOptions> => ({ mode, param, token, history })
+
+// Hash mode stores params after the # so it can share the hash with others,
+// but only a hash that is empty or already key=value pairs. Anchors (#intro)
+// and hash-router paths (#/gallery) belong to the page and are left alone
+const getParams = (url: URL, mode: UrlSyncOptions['mode']): URLSearchParams | null => {
+  if (mode === 'query') return url.searchParams
+  const hash = url.hash.slice(1)
+  if (hash && !hash.split('&').every((part) => /^[^/=]+=/.test(part))) return null
+  return new URLSearchParams(hash)
+}
+
+const getSlideToken = (slides: SlideData[], index: number, token: UrlSyncOptions['token']) =>
+  token === 'index' ? String(index + 1) : String(slides[index].id)
+
+/**
+ * Index of the slide the current URL points at, or null if it doesn't name one.
+ * Index tokens are 1-based so URLs read like "slide=3" for the third slide.
+ */
+export const getSlideIndexFromUrl = (
+  slides: SlideData[],
+  options?: UrlSyncOptions
+): number | null => {
+  if (typeof window === 'undefined') return null
+
+  const { mode, param, token } = resolveOptions(options)
+  const value = getParams(new URL(window.location.href), mode)?.get(param) ?? null
+  if (value === null) return null
+
+  if (token === 'index') {
+    const index = Number(value) - 1
+    return Number.isInteger(index) && index >= 0 && index < slides.length ? index : null
+  }
+
+  const index = slides.findIndex((slide) => String(slide.id) === value)
+  return index === -1 ? null : index
+}
+
+export function useUrlSync({
+  slides,
+  currentIndex,
+  onNavigate,
+  enabled = true,
+  ...urlOptions
+}: UseUrlSyncOptions) {
+  const { mode, param, token, history } = resolveOptions(urlOptions)
+  const hasWrittenRef = useRef(false)
+  // Until the URL shows a slide, update it in place so Back doesn't undo a deep link
+  const replaceNextRef = useRef(true)
+  const onNavigateRef = useRef(onNavigate)
+  onNavigateRef.current = onNavigate
+
+  // Write the current slide to the URL as it changes
+  useEffect(() => {
+    if (!enabled || !slides[currentIndex]) return
+
+    // A deep link wins over the starting slide. Uncontrolled slideshows already
+    // start on it; controlled ones are asked to navigate there instead
+    if (!hasWrittenRef.current) {
+      hasWrittenRef.current = true
+      const urlIndex = getSlideIndexFromUrl(slides, { mode, param, token })
+      if (urlIndex !== null && urlIndex !== currentIndex) {
+        onNavigateRef.current(urlIndex)
+        return
+      }
+    }
+
+    const url = new URL(window.location.href)
+    const params = getParams(url, mode)
+    if (!params) return
+
+    const value = getSlideToken(slides, currentIndex, token)
+    if (params.get(param) === value) {
+      replaceNextRef.current = false
+      return
+    }
+
+    params.set(param, value)
+    if (mode === 'hash') url.hash = params.toString()
+
+    if (history === 'push' && !replaceNextRef.current) {
+      window.history.pushState(window.history.state, '', url)
+    } else {
+      window.history.replaceState(window.history.state, '', url)
+    }
+    replaceNextRef.current = false
+  }, [enabled, slides, currentIndex, mode, param, token, history])
+
+  // Follow the URL on browser back/forward and manual hash edits
+  useEffect(() => {
+    if (!enabled) return
+
+    const handleUrlChange = () => {
+      const index = getSlideIndexFromUrl(slides, { mode, param, token })
+      if (index !== null) onNavigateRef.current(index)
+    }
+
+    window.addEventListener('popstate', handleUrlChange)
+    if (mode === 'hash') window.addEventListener('hashchange', handleUrlChange)
+
+    return () => {
+      window.removeEventListener('popstate', handleUrlChange)
+      window.removeEventListener('hashchange', handleUrlChange)
+    }
+  }, [enabled, slides, mode, param, token])
+}
@@ -0,0 +1,89 @@
+import { renderHook, act } from '@testing-library/react'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { useVisibility } from './useVisibility'
+
+// jsdom has no IntersectionObserver; keep the callback so tests can report intersections
+let reportIntersection: (isIntersecting: boolean) => void
+const disconnect = vi.fn()
+
+class MockIntersectionObserver {
+  constructor(callback: (entries: Partial<IntersectionObserverEntry>[]) => void) {
+    reportIntersection = (isIntersecting) => callback([{ isIntersecting }])
+  }
+  observe = vi.fn()
+  disconnect = disconnect
+}
+
+const setPageVisibility = (state: DocumentVisibilityState) => {
+  Object.defineProperty(document, 'visibilityState', { configurable: true, value: state })
+  document.dispatchEvent(new Event('visibilitychange'))
+}
+
+describe('useVisibility', () => {
+  let element: HTMLDivElement
+
+  beforeEach(() => {
+    // Before anything mounts, so resetting doesn't update a hook outside act()
+    setPageVisibility('visible')
+    element = document.createElement('div')
+    vi.stubGlobal('IntersectionObserver', MockIntersectionObserver)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    disconnect.mockClear()
+  })
+
+  it('is visible by default', () => {
+    const { result } = renderHook(() => useVisibility({ target: { current: element } }))
+    expect(result.current).toBe(true)
+  })
+
+  it('follows the page visibility', () => {
+    const { result } = renderHook(() => useVisibility())
+
+    act(() => setPageVisibility('hidden'))
+    expect(result.current).toBe(false)
+
+    act(() => setPageVisibility('visible'))
+    expect(result.current).toBe(true)
+  })
+
+  it('follows whether the target is on screen', () => {
+    const target = { current: element }
+    const { result } = renderHook(() => useVisibility({ target }))
+
+    act(() => reportIntersection(false))
+    expect(result.current).toBe(false)
+
+    act(() => reportIntersection(true))
+    expect(result.current).toBe(true)
+  })
+
+  it('stays visible without IntersectionObserver', () => {
+    vi.unstubAllGlobals()
+    vi.stubGlobal('IntersectionObserver', undefined)
+
+    const { result } = renderHook(() => useVisibility({ target: { current: element } }))
+
+    expect(result.current).toBe(true)
+  })
+
+  it('is always visible when disabled', () => {
+    const target = { current: element }
+    const { result } = renderHook(() => useVisibility({ target, enabled: false }))
+
+    act(() => setPageVisibility('hidden'))
+
+    expect(result.current).toBe(true)
+  })
+
+  it('stops observing on unmount', () => {
+    const target = { current: element }
+    const { unmount } = renderHook(() => useVisibility({ target }))
+
+    unmount()
+
+    expect(disconnect).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,47 @@
+import { useState, useEffect, RefObject } from 'react'
+
+interface UseVisibilityOptions {
+  /** Element to watch. Only the tab's visibility counts if omitted */
+  target?: RefObject<HTMLElement | null>
+  enabled?: boolean
+}
+
+const isPageVisible = () => typeof document === 'undefined' || document.visibilityState !== 'hidden'
+
+/**
+ * Whether the page is in the foreground and the target is at least partly on screen.
+ * Always true when disabled, and where IntersectionObserver isn't available
+ */
+export function useVisibility({ target, enabled = true }: UseVisibilityOptions = {}) {
+  const [isPageShown, setIsPageShown] = useState(isPageVisible)
+  const [isOnScreen, setIsOnScreen] = useState(true)
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const handleVisibilityChange = () => setIsPageShown(isPageVisible())
+    handleVisibilityChange()
+
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+    }
+  }, [enabled])
+
+  useEffect(() => {
+    const element = target?.current
+    if (!enabled || !element || typeof IntersectionObserver === 'undefined') return
+
+    const observer = new IntersectionObserver(([entry]) => {
+      setIsOnScreen(entry.isIntersecting)
+    })
+    observer.observe(element)
+
+    return () => {
+      observer.disconnect()
+      setIsOnScreen(true)
+    }
+  }, [enabled, target])
+
+  return !enabled || (isPageShown && isOnScreen)
+}
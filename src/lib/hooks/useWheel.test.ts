@@ -0,0 +1,181 @@
+import { renderHook } from '@testing-library/react'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { useWheel } from './useWheel'
+
+describe('useWheel', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    document.body.innerHTML = ''
+  })
+
+  const dispatchWheel = (init: WheelEventInit, target: EventTarget = window) => {
+    const event = new WheelEvent('wheel', { bubbles: true, cancelable: true, ...init })
+    target.dispatchEvent(event)
+    return event
+  }
+
+  describe('delta accumulation', () => {
+    it('changes slides once the scroll adds up to the threshold', () => {
+      const onNext = vi.fn()
+      renderHook(() => useWheel({ onNext, threshold: 50 }))
+
+      dispatchWheel({ deltaY: 20 })
+      dispatchWheel({ deltaY: 20 })
+      expect(onNext).not.toHaveBeenCalled()
+
+      dispatchWheel({ deltaY: 20 })
+      expect(onNext).toHaveBeenCalledTimes(1)
+    })
+
+    it('goes back when scrolling up or left', () => {
+      const onPrev = vi.fn()
+      renderHook(() => useWheel({ onPrev }))
+
+      dispatchWheel({ deltaY: -100 })
+      vi.advanceTimersByTime(300)
+      dispatchWheel({ deltaX: -100 })
+
+      expect(onPrev).toHaveBeenCalledTimes(2)
+    })
+
+    it('starts counting again when the direction changes', () => {
+      const onNext = vi.fn()
+      const onPrev = vi.fn()
+      renderHook(() => useWheel({ onNext, onPrev, threshold: 50 }))
+
+      dispatchWheel({ deltaY: 40 })
+      dispatchWheel({ deltaY: -40 })
+
+      expect(onNext).not.toHaveBeenCalled()
+      expect(onPrev).not.toHaveBeenCalled()
+    })
+
+    it('converts line-based deltas to pixels', () => {
+      const onNext = vi.fn()
+      renderHook(() => useWheel({ onNext, threshold: 50 }))
+
+      dispatchWheel({ deltaY: 4, deltaMode: 1 })
+
+      expect(onNext).toHaveBeenCalledTimes(1)
+    })
+
+    it('drops small scrolls after a pause', () => {
+      const onNext = vi.fn()
+      renderHook(() => useWheel({ onNext, threshold: 50 }))
+
+      dispatchWheel({ deltaY: 30 })
+      vi.advanceTimersByTime(300)
+      dispatchWheel({ deltaY: 30 })
+
+      expect(onNext).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('debouncing', () => {
+    it('changes one slide per scroll, however long the inertia lasts', () => {
+      const onNext = vi.fn()
+      renderHook(() => useWheel({ onNext }))
+
+      for (let i = 0; i < 60; i++) {
+        dispatchWheel({ deltaY: 100 - i })
+        vi.advanceTimersByTime(16)
+      }
+
+      expect(onNext).toHaveBeenCalledTimes(1)
+    })
+
+    it('changes slides again after the cooldown', () => {
+      const onNext = vi.fn()
+      renderHook(() => useWheel({ onNext, cooldown: 200 }))
+
+      dispatchWheel({ deltaY: 100 })
+      vi.advanceTimersByTime(150)
+      dispatchWheel({ deltaY: 100 })
+      expect(onNext).toHaveBeenCalledTimes(1)
+
+      vi.advanceTimersByTime(250)
+      dispatchWheel({ deltaY: 100 })
+      expect(onNext).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe('axis selection', () => {
+    it('lets vertical scrolling through on the horizontal axis', () => {
+      const onNext = vi.fn()
+      renderHook(() => useWheel({ onNext, axis: 'horizontal' }))
+
+      const event = dispatchWheel({ deltaY: 100, deltaX: 5 })
+      expect(onNext).not.toHaveBeenCalled()
+      expect(event.defaultPrevented).toBe(false)
+
+      dispatchWheel({ deltaX: 100 })
+      expect(onNext).toHaveBeenCalledTimes(1)
+    })
+
+    it('ignores horizontal scrolling on the vertical axis', () => {
+      const onNext = vi.fn()
+      renderHook(() => useWheel({ onNext, axis: 'vertical' }))
+
+      dispatchWheel({ deltaX: 100 })
+      expect(onNext).not.toHaveBeenCalled()
+
+      dispatchWheel({ deltaY: 100 })
+      expect(onNext).toHaveBeenCalledTimes(1)
+    })
+
+    it('prevents page scrolling for handled scrolls', () => {
+      renderHook(() => useWheel({ onNext: vi.fn() }))
+
+      expect(dispatchWheel({ deltaY: 10 }).defaultPrevented).toBe(true)
+    })
+
+    it('ignores pinch-zoom', () => {
+      const onNext = vi.fn()
+      renderHook(() => useWheel({ onNext }))
+
+      const event = dispatchWheel({ deltaY: 100, ctrlKey: true })
+
+      expect(onNext).not.toHaveBeenCalled()
+      expect(event.defaultPrevented).toBe(false)
+    })
+  })
+
+  describe('target and enabled state', () => {
+    it('only responds to scrolling over its target', () => {
+      const element = document.createElement('div')
+      document.body.appendChild(element)
+      const onNext = vi.fn()
+      renderHook(() => useWheel({ target: { current: element }, onNext }))
+
+      dispatchWheel({ deltaY: 100 })
+      expect(onNext).not.toHaveBeenCalled()
+
+      dispatchWheel({ deltaY: 100 }, element)
+      expect(onNext).toHaveBeenCalledTimes(1)
+    })
+
+    it('does nothing when disabled', () => {
+      const onNext = vi.fn()
+      renderHook(() => useWheel({ onNext, enabled: false }))
+
+      const event = dispatchWheel({ deltaY: 100 })
+
+      expect(onNext).not.toHaveBeenCalled()
+      expect(event.defaultPrevented).toBe(false)
+    })
+
+    it('removes the listener on unmount', () => {
+      const onNext = vi.fn()
+      const { unmount } = renderHook(() => useWheel({ onNext }))
+
+      unmount()
+      dispatchWheel({ deltaY: 100 })
+
+      expect(onNext).not.toHaveBeenCalled()
+    })
+  })
+})
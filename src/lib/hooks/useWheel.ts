@@ -0,0 +1,99 @@
+import { useEffect, useRef, useCallback, RefObject } from 'react'
+import { WheelAxis } from '../types'
+
+interface UseWheelOptions {
+  /** Element to listen on. Listens on window if omitted */
+  target?: RefObject<HTMLElement | null>
+  /** Called on scrolling down or right */
+  onNext?: () => void
+  /** Called on scrolling up or left */
+  onPrev?: () => void
+  /** Which scroll directions change slides. Scrolling along other axes still scrolls the page */
+  axis?: WheelAxis
+  /** Scroll distance in px that adds up to one slide change */
+  threshold?: number
+  /** Quiet time in ms after which a new scroll can change slides again */
+  cooldown?: number
+  enabled?: boolean
+}
+
+// deltaMode 1 and 2 report lines and pages instead of pixels
+const LINE_HEIGHT = 16
+const PAGE_HEIGHT = 800
+
+const toPixels = (delta: number, deltaMode: number) =>
+  deltaMode === 1 ? delta * LINE_HEIGHT : deltaMode === 2 ? delta * PAGE_HEIGHT : delta
+
+export function useWheel({
+  target,
+  onNext,
+  onPrev,
+  axis = 'both',
+  threshold = 50,
+  cooldown = 200,
+  enabled = true,
+}: UseWheelOptions) {
+  const accumulated = useRef(0)
+  const lastEventTime = useRef(0)
+  // Set after a slide change until the scroll (including trackpad inertia) dies down
+  const locked = useRef(false)
+
+  const getDelta = useCallback(
+    (e: WheelEvent) => {
+      const deltaX = toPixels(e.deltaX, e.deltaMode)
+      const deltaY = toPixels(e.deltaY, e.deltaMode)
+      const isHorizontal = Math.abs(deltaX) > Math.abs(deltaY)
+
+      if (axis === 'horizontal') return isHorizontal ? deltaX : 0
+      if (axis === 'vertical') return isHorizontal ? 0 : deltaY
+      return isHorizontal ? deltaX : deltaY
+    },
+    [axis]
+  )
+
+  const handleWheel = useCallback(
+    (e: WheelEvent) => {
+      // Trackpad pinch-zoom arrives as a wheel event with ctrlKey set
+      if (!enabled || e.ctrlKey) return
+
+      const delta = getDelta(e)
+      if (delta === 0) return
+      e.preventDefault()
+
+      const now = Date.now()
+      if (now - lastEventTime.current > cooldown) {
+        locked.current = false
+        accumulated.current = 0
+      }
+      lastEventTime.current = now
+      if (locked.current) return
+
+      // Changing direction starts counting again
+      if (Math.sign(delta) !== Math.sign(accumulated.current)) accumulated.current = 0
+      accumulated.current += delta
+      if (Math.abs(accumulated.current) < threshold) return
+
+      locked.current = true
+      accumulated.current = 0
+      if (delta > 0) {
+        onNext?.()
+      } else {
+        onPrev?.()
+      }
+    },
+    [enabled, getDelta, cooldown, threshold, onNext, onPrev]
+  )
+
+  useEffect(() => {
+    const element: HTMLElement | Window | null = target ? target.current : window
+    if (!enabled || !element) return
+
+    // Not passive, so scrolling over the slideshow doesn't also scroll the page
+    const listener = handleWheel as EventListener
+    element.addEventListener('wheel', listener, { passive: false })
+
+    return () => {
+      element.removeEventListener('wheel', listener)
+    }
+  }, [enabled, target, handleWheel])
+}
@@ -1,21 +1,51 @@
 export { Slideshow } from './components/Slideshow'
 export { Controls } from './components/Controls'
 export { Indicators } from './components/Indicators'
+export { Thumbnails } from './components/Thumbnails'
+export { AutoPlayProgress } from './components/AutoPlayProgress'
 export { LoadingSpinner, type LoadingSpinnerProps } from './components/LoadingSpinner'
 export { FallbackSlideshow, type FallbackSlideshowProps } from './components/FallbackSlideshow'
 
 export { useSlideshow } from './hooks/useSlideshow'
 export { useSwipe } from './hooks/useSwipe'
-export { useKeyboard } from './hooks/useKeyboard'
+export { useScrub } from './hooks/useScrub'
+export { useKeyboard, DEFAULT_KEY_MAP } from './hooks/useKeyboard'
+export { useWheel } from './hooks/useWheel'
+export { useFullscreen, isFullscreenSupported } from './hooks/useFullscreen'
+export { useVisibility } from './hooks/useVisibility'
+export { useReducedMotion } from './hooks/useReducedMotion'
+export { useSlideTextures } from './hooks/useSlideTextures'
+export { useUrlSync, getSlideIndexFromUrl } from './hooks/useUrlSync'
+
+export { registerTransition, unregisterTransition, getTransition } from './transitions/registry'
 
 export { isWebGLSupported } from './utils/webgl'
 
 export type {
   SlideshowProps,
   SlideshowHandle,
+  GoToOptions,
+  UrlSyncOptions,
+  KeyMap,
+  KeyboardAction,
+  WheelAxis,
+  ReducedMotion,
+  FadeMode,
+  RippleOrigin,
   SlideData,
   TransitionStyle,
+  TransitionProps,
+  TransitionComponent,
+  SlideTexture,
+  SlideLoadState,
+  PreloadStrategy,
+  JumpBehavior,
+  ScrubState,
+  SlideLoadInfo,
   ControlsProps,
   IndicatorsProps,
+  ThumbnailsProps,
+  AutoPlayProgressProps,
+  IndicatorMode,
   FocusRingStyles,
 } from './types'
@@ -0,0 +1,63 @@
+// Fade transition fragment shader
+// Blends from the current slide to the next, each cropped to cover the plane:
+// a plain dissolve, a dip through a solid colour, or a dissolve in noisy patches
+
+uniform sampler2D uCurrentTexture;
+uniform sampler2D uNextTexture;
+uniform float uProgress;
+// Cover crop per slide: xy is the UV scale, zw the UV offset
+uniform vec4 uCurrentUv;
+uniform vec4 uNextUv;
+// 0 = dissolve, 1 = dip to colour, 2 = noise dissolve
+uniform int uMode;
+uniform vec3 uColor;
+uniform float uAspect;
+
+varying vec2 vUv;
+
+// How many noise cells span the plane's height, and how soft their edges are
+#define NOISE_SCALE 6.0
+#define NOISE_EDGE 0.1
+
+float random(vec2 st) {
+  return fract(sin(dot(st.xy, vec2(12.9898, 78.233))) * 43758.5453123);
+}
+
+// Smoothly interpolated value noise, 0 to 1
+float valueNoise(vec2 st) {
+  vec2 cell = floor(st);
+  vec2 f = fract(st);
+  vec2 u = f * f * (3.0 - 2.0 * f);
+
+  float a = random(cell);
+  float b = random(cell + vec2(1.0, 0.0));
+  float c = random(cell + vec2(0.0, 1.0));
+  float d = random(cell + vec2(1.0, 1.0));
+  return mix(mix(a, b, u.x), mix(c, d, u.x), u.y);
+}
+
+void main() {
+  vec4 current = texture2D(uCurrentTexture, vUv * uCurrentUv.xy + uCurrentUv.zw);
+  vec4 next = texture2D(uNextTexture, vUv * uNextUv.xy + uNextUv.zw);
+
+  if (uMode == 1) {
+    // Fade out to the colour over the first half, then in from it
+    vec4 color = vec4(uColor, 1.0);
+    gl_FragColor = uProgress < 0.5
+      ? mix(current, color, uProgress * 2.0)
+      : mix(color, next, uProgress * 2.0 - 1.0);
+  } else if (uMode == 2) {
+    // Two octaves of noise, so patches have ragged edges; keep cells square on any plane
+    vec2 st = vUv * vec2(uAspect, 1.0) * NOISE_SCALE;
+    float noise = valueNoise(st) * 0.7 + valueNoise(st * 2.0 + 17.0) * 0.3;
+    // Stretch progress so every pixel is fully current at 0 and fully next at 1
+    float threshold = uProgress * (1.0 + 2.0 * NOISE_EDGE) - NOISE_EDGE;
+    float reveal = smoothstep(noise - NOISE_EDGE, noise + NOISE_EDGE, threshold);
+    gl_FragColor = mix(current, next, reveal);
+  } else {
+    gl_FragColor = mix(current, next, uProgress);
+  }
+
+  // Apply sRGB encoding to match Three.js output color space
+  #include <colorspace_fragment>
+}
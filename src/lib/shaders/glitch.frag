@@ -11,6 +11,7 @@ uniform float uProgress;
 uniform float uShowNext;
 uniform float uAberrationAmount;
 uniform float uTime;
+uniform float uGrainTime;
 uniform float uOverlayIntensity;
 uniform vec2 uLayer1Offset;
 uniform vec2 uLayer2Offset;
@@ -18,6 +19,8 @@ uniform float uHueShift1;
 uniform float uHueShift2;
 uniform float uScanlinesIntensity;
 uniform float uGrainIntensity;
+uniform float uFlickerAmount;
+uniform float uMaxLuminanceShift;
 
 varying vec2 vUv;
 
@@ -83,8 +86,8 @@ void main() {
   vec3 nextColor = vec3(nextR, nextG, nextB);
 
   // Choose which texture to show based on uShowNext (0 = current, 1 = next)
-  // The swap happens at peak intensity (no crossfade, instant switch)
-  vec3 baseColor = uShowNext < 0.5 ? currentColor : nextColor;
+  // The swap happens at peak intensity, instantly unless safe mode blends it
+  vec3 baseColor = mix(currentColor, nextColor, uShowNext);
 
   // ============================================
   // OVERLAY LAYERS
@@ -109,7 +112,7 @@ void main() {
   float layer1NextB = texture2D(uNextTexture, layer1Uv - layer1AberrationOffset).b;
   vec3 layer1NextColor = vec3(layer1NextR, layer1NextG, layer1NextB);
 
-  vec3 layer1Color = uShowNext < 0.5 ? layer1CurrentColor : layer1NextColor;
+  vec3 layer1Color = mix(layer1CurrentColor, layer1NextColor, uShowNext);
   layer1Color = hueRotate(layer1Color, uHueShift1);
 
   // --- Layer 2: different offset and aberration ---
@@ -129,7 +132,7 @@ void main() {
   float layer2NextB = texture2D(uNextTexture, layer2Uv - layer2AberrationOffset).b;
   vec3 layer2NextColor = vec3(layer2NextR, layer2NextG, layer2NextB);
 
-  vec3 layer2Color = uShowNext < 0.5 ? layer2CurrentColor : layer2NextColor;
+  vec3 layer2Color = mix(layer2CurrentColor, layer2NextColor, uShowNext);
   layer2Color = hueRotate(layer2Color, uHueShift2);
 
   // Apply hard light blend mode to overlay layers
@@ -169,7 +172,7 @@ void main() {
     finalColor += glow;
 
     // Add subtle flicker
-    float flicker = sin(uTime * 45.0) * 0.03 * scaledIntensity;
+    float flicker = sin(uTime * 45.0) * uFlickerAmount * scaledIntensity;
     finalColor *= (1.0 + flicker);
   }
 
@@ -182,13 +185,25 @@ void main() {
     float scaledGrain = uGrainIntensity * 0.4;
 
     // Create animated grain by using time to offset the noise
-    vec2 grainUv = uv * 500.0 + uTime * 100.0;
+    vec2 grainUv = uv * 500.0 + uGrainTime * 100.0;
     float grain = random(grainUv) - 0.5;
 
     // Apply grain - adds and subtracts brightness randomly
     finalColor += grain * scaledGrain * 0.15;
   }
 
+  // ============================================
+  // LUMINANCE LIMIT
+  // Safe mode keeps the effects, grain included, within uMaxLuminanceShift of
+  // the slides beneath. Two frames can then differ by at most twice that, which
+  // stays under the 10% luminance change that counts as a flash
+  // ============================================
+  if (uMaxLuminanceShift < 1.0) {
+    float luminanceShift = dot(finalColor - baseColor, vec3(0.2126, 0.7152, 0.0722));
+    finalColor -= luminanceShift - clamp(luminanceShift, -uMaxLuminanceShift, uMaxLuminanceShift);
+    finalColor = clamp(finalColor, 0.0, 1.0);
+  }
+
   gl_FragColor = vec4(finalColor, 1.0);
 
   // Apply sRGB encoding to match Three.js output color space
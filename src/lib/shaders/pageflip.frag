@@ -0,0 +1,40 @@
+// Page flip transition fragment shader
+// Draws a slide cropped to cover the page. The back of the turning page shows
+// the slide faintly through the paper; the page underneath gets a soft shadow
+// along the curl
+
+uniform sampler2D uTexture;
+// Cover crop: xy is the UV scale, zw the UV offset
+uniform vec4 uUv;
+uniform float uOpacity;
+uniform float uCurl;
+uniform vec2 uAxis;
+uniform float uRadius;
+// How dark the shadow along the curl is, 0 for none
+uniform float uShadow;
+
+varying vec2 vUv;
+varying vec2 vPosition;
+varying float vShade;
+
+#define PAPER vec3(0.92, 0.91, 0.88)
+
+void main() {
+  vec4 color = texture2D(uTexture, vUv * uUv.xy + uUv.zw);
+
+  // The reverse of the page: mostly paper, with the slide showing through
+  if (!gl_FrontFacing) {
+    color.rgb = mix(color.rgb, PAPER, 0.8);
+  }
+  color.rgb *= vShade;
+
+  if (uShadow > 0.0) {
+    float curlDistance = dot(vPosition, uAxis) - uCurl;
+    color.rgb *= 1.0 - uShadow * (1.0 - smoothstep(0.0, uRadius * 2.0, curlDistance));
+  }
+
+  gl_FragColor = vec4(color.rgb, color.a * uOpacity);
+
+  // Apply sRGB encoding to match Three.js output color space
+  #include <colorspace_fragment>
+}
@@ -0,0 +1,46 @@
+// Page flip transition vertex shader
+// Rolls the part of a subdivided plane past the curl line around a cylinder,
+// then lays it flat again on top, face down, like a page being turned
+
+#define PI 3.14159265359
+
+// Distance of the curl line from the centre, measured along uAxis
+uniform float uCurl;
+// Unit vector pointing toward the free edge of the page
+uniform vec2 uAxis;
+uniform float uRadius;
+// 1 for the turning page, 0 for the flat page underneath
+uniform float uBend;
+
+varying vec2 vUv;
+varying vec2 vPosition;
+varying float vShade;
+
+void main() {
+  vUv = uv;
+  vPosition = position.xy;
+  vShade = 1.0;
+
+  vec3 p = position;
+  float curlDistance = dot(p.xy, uAxis) - uCurl;
+
+  if (uBend > 0.5 && curlDistance > 0.0) {
+    // The point on the curl line this vertex rolls up from
+    vec2 base = p.xy - curlDistance * uAxis;
+    float halfTurn = PI * uRadius;
+
+    if (curlDistance < halfTurn) {
+      // Wrapped around the cylinder, darkening as it turns away from the viewer
+      float angle = curlDistance / uRadius;
+      p.xy = base + uAxis * uRadius * sin(angle);
+      p.z = uRadius * (1.0 - cos(angle));
+      vShade = 0.7 + 0.3 * abs(cos(angle));
+    } else {
+      // Past the top of the cylinder, flat again and heading back the other way
+      p.xy = base - uAxis * (curlDistance - halfTurn);
+      p.z = 2.0 * uRadius;
+    }
+  }
+
+  gl_Position = projectionMatrix * modelViewMatrix * vec4(p, 1.0);
+}
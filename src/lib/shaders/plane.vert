@@ -0,0 +1,9 @@
+// Plain plane vertex shader, shared by the shader-based transitions
+// Passes plain UVs through; each slide applies its own cover crop in the fragment shader
+
+varying vec2 vUv;
+
+void main() {
+  vUv = uv;
+  gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+}
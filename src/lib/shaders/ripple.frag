@@ -0,0 +1,59 @@
+// Ripple transition fragment shader
+// Sends concentric waves out from an origin point, bending the image like
+// the surface of water, while the next slide spreads out behind the wave front
+
+#define PI 3.14159265359
+#define TWO_PI 6.28318530718
+
+uniform sampler2D uCurrentTexture;
+uniform sampler2D uNextTexture;
+uniform float uProgress;
+// Cover crop per slide: xy is the UV scale, zw the UV offset
+uniform vec4 uCurrentUv;
+uniform vec4 uNextUv;
+// Where the waves start, in plane UVs
+uniform vec2 uOrigin;
+// Distance from the origin to the farthest corner, in units of the plane's height
+uniform float uMaxDistance;
+uniform float uAspect;
+uniform float uAmplitude;
+// Waves per plane height
+uniform float uFrequency;
+
+varying vec2 vUv;
+
+// Half the width of the soft edge between the slides
+#define EDGE 0.15
+// How quickly the waves die away behind the front
+#define DECAY 3.0
+// Largest displacement, in UVs, at full amplitude
+#define MAX_DISPLACEMENT 0.04
+
+void main() {
+  // Work in units of the plane's height so the rings stay circular
+  vec2 fromOrigin = (vUv - uOrigin) * vec2(uAspect, 1.0);
+  float dist = length(fromOrigin);
+
+  // The wave front sweeps from the origin past the farthest corner
+  float front = mix(-EDGE, uMaxDistance + EDGE, uProgress);
+
+  // Strongest at the front and mid-transition, calm at either end
+  float envelope = exp(-abs(dist - front) * DECAY) * sin(uProgress * PI);
+  float wave = sin((dist - front) * uFrequency * TWO_PI);
+
+  // Push each point along the ray from the origin, back into plane UVs
+  vec2 direction = dist > 0.0 ? fromOrigin / dist : vec2(0.0);
+  vec2 displacement = direction / vec2(uAspect, 1.0) * wave * envelope * uAmplitude * MAX_DISPLACEMENT;
+  // Stay inside the cropped image rather than sampling what the crop cut off
+  vec2 uv = clamp(vUv + displacement, 0.0, 1.0);
+
+  vec4 current = texture2D(uCurrentTexture, uv * uCurrentUv.xy + uCurrentUv.zw);
+  vec4 next = texture2D(uNextTexture, uv * uNextUv.xy + uNextUv.zw);
+
+  // The next slide shows inside the front
+  float reveal = 1.0 - smoothstep(front - EDGE, front + EDGE, dist);
+  gl_FragColor = mix(current, next, reveal);
+
+  // Apply sRGB encoding to match Three.js output color space
+  #include <colorspace_fragment>
+}
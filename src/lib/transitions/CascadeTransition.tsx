@@ -1,17 +1,17 @@
-import { useRef, useEffect, useState } from 'react'
+import { useRef, useEffect } from 'react'
 import { useThree, useFrame } from '@react-three/fiber'
 import * as THREE from 'three'
-import { SlideData } from '../types'
-
-interface CascadeTransitionProps {
-  slides: SlideData[]
-  currentIndex: number
-  transitionDuration: number
-  direction: 'next' | 'prev'
+import { TransitionProps, SlideTexture } from '../types'
+import {
+  useTransitionReady,
+  useSteppedTransition,
+  TransitionStep,
+  easeInOutCubic,
+  calculateCoverUV,
+} from './utils'
+
+interface CascadeTransitionProps extends TransitionProps {
   minTiles?: number
-  aspectRatio?: number
-  fullscreen?: boolean
-  onReady?: () => void
 }
 
 // Calculate grid dimensions for square tiles
@@ -37,30 +37,6 @@ const GRID_BASE_SIZE = 3
 const GAP = 0
 const ANIMATION_SPEED = 1.5
 
-const easeInOutCubic = (t: number): number => {
-  return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2
-}
-
-// Calculate UV scale and offset for "cover" behavior (crop to fill)
-const calculateCoverUV = (imageAspect: number, targetAspect: number) => {
-  let scaleU = 1
-  let scaleV = 1
-  let offsetU = 0
-  let offsetV = 0
-
-  if (imageAspect > targetAspect) {
-    // Image is wider than target - crop sides
-    scaleU = targetAspect / imageAspect
-    offsetU = (1 - scaleU) / 2
-  } else {
-    // Image is taller than target - crop top/bottom
-    scaleV = imageAspect / targetAspect
-    offsetV = (1 - scaleV) / 2
-  }
-
-  return { scaleU, scaleV, offsetU, offsetV }
-}
-
 interface CubeData {
   mesh: THREE.Mesh
   row: number
@@ -69,32 +45,29 @@ interface CubeData {
   faceMaterials: THREE.MeshBasicMaterial[]
 }
 
-interface TextureData {
-  texture: THREE.Texture
-  imageAspect: number // width / height of the source image
-}
-
 export function CascadeTransition({
   slides,
   currentIndex,
   transitionDuration,
   direction,
+  animate = true,
+  jumpBehavior = 'direct',
+  scrub,
+  textures,
   minTiles = 10,
   aspectRatio = 3 / 2,
   fullscreen = false,
   onReady,
+  onTransitionStart,
+  onTransitionProgress,
+  onTransitionEnd,
 }: CascadeTransitionProps) {
   const { viewport } = useThree()
   const groupRef = useRef<THREE.Group>(null)
   const cubeDataRef = useRef<CubeData[]>([])
-  const textureDataRef = useRef<TextureData[]>([])
-  const displayedIndexRef = useRef(currentIndex) // The slide currently shown
-  const targetIndexRef = useRef(currentIndex) // The final target slide
-  const animationProgressRef = useRef(0)
-  const isAnimatingRef = useRef(false)
-  const animationDirectionRef = useRef<'forward' | 'backward'>('forward')
-  const [isReady, setIsReady] = useState(false)
+  const textureDataRef = useRef<(SlideTexture | undefined)[]>([])
   const initializedRef = useRef(false)
+  const isReady = useTransitionReady(textures, currentIndex, onReady)
 
   // In fullscreen mode, use viewport aspect ratio
   const effectiveAspectRatio = fullscreen ? viewport.width / viewport.height : aspectRatio
@@ -111,7 +84,7 @@ export function CascadeTransition({
   const gridWidth = GRID_BASE_SIZE * effectiveAspectRatio
   const gridHeight = GRID_BASE_SIZE
 
-  // Reset initialization when grid parameters change
+  // Reset initialization when grid parameters change, including resizes in fullscreen mode
   useEffect(() => {
     if (initializedRef.current && groupRef.current) {
       // Clean up existing cubes
@@ -128,7 +101,7 @@ export function CascadeTransition({
       cubeDataRef.current = []
       initializedRef.current = false
     }
-  }, [aspectRatio, minTiles, gridRows, gridCols, fullscreen])
+  }, [aspectRatio, effectiveAspectRatio, minTiles, gridRows, gridCols, fullscreen])
 
   // Calculate the scale to fit the viewport
   const getScale = () => {
@@ -150,59 +123,10 @@ export function CascadeTransition({
     return Math.min(scaleX, scaleY)
   }
 
-  // Load textures with image aspect ratio information
+  // Textures come from the shared cache; keep a ref for the animation loop
   useEffect(() => {
-    const loadPromises = slides.map(
-      (slide) =>
-        new Promise<TextureData>((resolve) => {
-          if (slide.image) {
-            const img = new Image()
-            img.crossOrigin = 'anonymous'
-            img.onload = () => {
-              const texture = new THREE.Texture(img)
-              texture.needsUpdate = true
-              texture.colorSpace = THREE.SRGBColorSpace
-              resolve({
-                texture,
-                imageAspect: img.width / img.height,
-              })
-            }
-            img.onerror = () => {
-              // On error, create a placeholder
-              const canvas = document.createElement('canvas')
-              canvas.width = 64
-              canvas.height = 64
-              const ctx = canvas.getContext('2d')!
-              ctx.fillStyle = '#333'
-              ctx.fillRect(0, 0, 64, 64)
-              const texture = new THREE.CanvasTexture(canvas)
-              resolve({ texture, imageAspect: 1 })
-            }
-            img.src = slide.image
-          } else {
-            const canvas = document.createElement('canvas')
-            canvas.width = 64
-            canvas.height = 64
-            const ctx = canvas.getContext('2d')!
-            ctx.fillStyle = slide.backgroundColor || '#333'
-            ctx.fillRect(0, 0, 64, 64)
-            const texture = new THREE.CanvasTexture(canvas)
-            resolve({ texture, imageAspect: 1 })
-          }
-        })
-    )
-
-    Promise.all(loadPromises).then((textureData) => {
-      textureDataRef.current = textureData
-      setIsReady(true)
-      onReady?.()
-    })
-
-    return () => {
-      textureDataRef.current.forEach((td) => td.texture.dispose())
-      textureDataRef.current = []
-    }
-  }, [slides, onReady])
+    textureDataRef.current = textures
+  }, [textures])
 
   // Helper to calculate UV coordinates for a grid cell with cover behavior
   const calculateCellUV = (row: number, col: number, imageAspect: number) => {
@@ -228,11 +152,11 @@ export function CascadeTransition({
     if (!isReady || !groupRef.current || textureDataRef.current.length === 0) return
     if (initializedRef.current) return
 
-    initializedRef.current = true
-
     const initialTextureData = textureDataRef.current[currentIndex] || textureDataRef.current[0]
     if (!initialTextureData) return
 
+    initializedRef.current = true
+
     // Clear existing cubes
     while (groupRef.current.children.length > 0) {
       const child = groupRef.current.children[0]
@@ -299,16 +223,6 @@ export function CascadeTransition({
     }
   }, [isReady, gridCols, gridRows, cubeSize, gridWidth, gridHeight, currentIndex, aspectRatio])
 
-  // Handle slide changes - just update the target, animation loop handles the rest
-  useEffect(() => {
-    if (currentIndex !== targetIndexRef.current && textureDataRef.current.length > 0) {
-      targetIndexRef.current = currentIndex
-      // Determine overall direction based on target vs current displayed
-      const dir = direction === 'next' ? 'forward' : 'backward'
-      animationDirectionRef.current = dir
-    }
-  }, [currentIndex, direction])
-
   // Helper to update UV coordinates for all cubes when changing to a new image
   const updateCubeUVs = (imageAspect: number) => {
     for (const cubeData of cubeDataRef.current) {
@@ -332,141 +246,96 @@ export function CascadeTransition({
     }
   }
 
-  // Helper to start animating to the next slide in sequence
-  const startNextTransition = () => {
-    if (cubeDataRef.current.length === 0 || textureDataRef.current.length === 0) return false
-
-    const displayed = displayedIndexRef.current
-    const target = targetIndexRef.current
+  // Helper to show a slide on every face with the cubes at rest
+  const showSlide = (index: number) => {
+    const textureData = textureDataRef.current[index]
+    if (!textureData) return
 
-    if (displayed === target) return false
+    // Update UVs to match the new image's aspect ratio
+    updateCubeUVs(textureData.imageAspect)
 
-    // Determine which slide to animate to next (one step toward target)
-    const dir = animationDirectionRef.current
-    let nextIndex: number
-
-    if (dir === 'forward') {
-      nextIndex = (displayed + 1) % slides.length
-    } else {
-      nextIndex = (displayed - 1 + slides.length) % slides.length
-    }
-
-    // Update side textures to show the next image
-    const nextTextureData = textureDataRef.current[nextIndex]
-    if (nextTextureData) {
-      for (const cubeData of cubeDataRef.current) {
-        cubeData.faceMaterials[0].map = nextTextureData.texture // +X (right)
-        cubeData.faceMaterials[1].map = nextTextureData.texture // -X (left)
-        cubeData.faceMaterials[0].needsUpdate = true
-        cubeData.faceMaterials[1].needsUpdate = true
+    for (const cubeData of cubeDataRef.current) {
+      cubeData.mesh.rotation.y = 0
+      cubeData.mesh.position.z = cubeData.baseZ
+      for (const mat of cubeData.faceMaterials) {
+        mat.map = textureData.texture
+        mat.needsUpdate = true
       }
     }
-
-    animationProgressRef.current = 0
-    isAnimatingRef.current = true
-    return true
   }
 
-  // Animation loop
-  useFrame((_, delta) => {
-    // Update scale every frame to handle resize
-    if (groupRef.current) {
-      const scale = getScale()
-      groupRef.current.scale.setScalar(scale)
-    }
-
-    // If not animating, check if we need to start a new transition
-    if (!isAnimatingRef.current) {
-      if (displayedIndexRef.current !== targetIndexRef.current) {
-        startNextTransition()
-      }
-      if (!isAnimatingRef.current) return
+  // Helper to set up the cubes for a step from one slide to another
+  const beginStep = ({ to }: TransitionStep) => {
+    // Update side textures to show the next image
+    const nextTextureData = textureDataRef.current[to]
+    if (!nextTextureData) return
+    for (const cubeData of cubeDataRef.current) {
+      cubeData.faceMaterials[0].map = nextTextureData.texture // +X (right)
+      cubeData.faceMaterials[1].map = nextTextureData.texture // -X (left)
+      cubeData.faceMaterials[0].needsUpdate = true
+      cubeData.faceMaterials[1].needsUpdate = true
     }
+  }
 
-    if (cubeDataRef.current.length === 0) return
+  // Update scale every frame to handle resize
+  useFrame(() => {
+    groupRef.current?.scale.setScalar(getScale())
+  })
 
-    const speed = ANIMATION_SPEED * (1000 / transitionDuration) * 0.8
+  useSteppedTransition({
+    slides,
+    currentIndex,
+    // The cascade has always played ANIMATION_SPEED * 0.8 steps per transitionDuration
+    transitionDuration: transitionDuration / (ANIMATION_SPEED * 0.8),
+    direction,
+    animate,
+    jumpBehavior,
+    scrub,
+    textures,
+    isReady,
+    canRender: () => cubeDataRef.current.length > 0,
+    onTransitionStart,
+    onTransitionProgress,
+    onTransitionEnd,
+    onShow: showSlide,
+    onBegin: beginStep,
+    onFrame: (progress, { backward }) => {
+      // Apply animation progress to cubes
+      const maxDiagonal = (gridCols - 1) + (gridRows - 1)
 
-    // Animate towards completion
-    animationProgressRef.current = Math.min(
-      animationProgressRef.current + delta * speed,
-      1
-    )
+      for (const cubeData of cubeDataRef.current) {
+        const flippedRow = gridRows - 1 - cubeData.row
+        let diagonalIndex: number
 
-    // Check if this single transition is complete
-    if (animationProgressRef.current >= 1) {
-      // Move displayed index one step in the animation direction
-      const dir = animationDirectionRef.current
-      if (dir === 'forward') {
-        displayedIndexRef.current = (displayedIndexRef.current + 1) % slides.length
-      } else {
-        displayedIndexRef.current = (displayedIndexRef.current - 1 + slides.length) % slides.length
-      }
+        if (backward) {
+          diagonalIndex = gridCols - 1 - cubeData.col + cubeData.row
+        } else {
+          diagonalIndex = cubeData.col + flippedRow
+        }
 
-      // Update all faces to the newly displayed texture
-      const newTextureData = textureDataRef.current[displayedIndexRef.current]
-      if (newTextureData) {
-        // Update UVs to match the new image's aspect ratio
-        updateCubeUVs(newTextureData.imageAspect)
+        const normalizedDiagonal = diagonalIndex / maxDiagonal
+        // waveSpread controls how spread out the cascade is (higher = more staggered)
+        const waveSpread = 0.7
+        const cubeStartProgress = normalizedDiagonal * waveSpread
+        const cubeEndProgress = cubeStartProgress + (1 - waveSpread)
+
+        let cubeProgress = 0
+        if (progress > cubeStartProgress) {
+          cubeProgress = Math.min(
+            1,
+            (progress - cubeStartProgress) / (cubeEndProgress - cubeStartProgress)
+          )
+        }
 
-        for (const cubeData of cubeDataRef.current) {
+        if (cubeProgress > 0) {
+          const easedProgress = easeInOutCubic(cubeProgress)
+          const rotation = easedProgress * (Math.PI / 2) * (backward ? -1 : 1)
+          cubeData.mesh.rotation.y = rotation
+        } else {
           cubeData.mesh.rotation.y = 0
-          cubeData.mesh.position.z = cubeData.baseZ
-          for (const mat of cubeData.faceMaterials) {
-            mat.map = newTextureData.texture
-            mat.needsUpdate = true
-          }
         }
       }
-
-      animationProgressRef.current = 0
-      isAnimatingRef.current = false
-
-      // Check if we need to continue to the next slide
-      if (displayedIndexRef.current !== targetIndexRef.current) {
-        startNextTransition()
-      }
-      return
-    }
-
-    // Apply animation progress to cubes
-    const maxDiagonal = (gridCols - 1) + (gridRows - 1)
-    const animDir = animationDirectionRef.current
-
-    for (const cubeData of cubeDataRef.current) {
-      const flippedRow = gridRows - 1 - cubeData.row
-      let diagonalIndex: number
-
-      if (animDir === 'forward') {
-        diagonalIndex = cubeData.col + flippedRow
-      } else {
-        diagonalIndex = gridCols - 1 - cubeData.col + cubeData.row
-      }
-
-      const normalizedDiagonal = diagonalIndex / maxDiagonal
-      // waveSpread controls how spread out the cascade is (higher = more staggered)
-      const waveSpread = 0.7
-      const cubeStartProgress = normalizedDiagonal * waveSpread
-      const cubeEndProgress = cubeStartProgress + (1 - waveSpread)
-
-      let cubeProgress = 0
-      if (animationProgressRef.current > cubeStartProgress) {
-        cubeProgress = Math.min(
-          1,
-          (animationProgressRef.current - cubeStartProgress) /
-            (cubeEndProgress - cubeStartProgress)
-        )
-      }
-
-      if (cubeProgress > 0) {
-        const easedProgress = easeInOutCubic(cubeProgress)
-        const rotation =
-          easedProgress * (Math.PI / 2) * (animDir === 'forward' ? 1 : -1)
-        cubeData.mesh.rotation.y = rotation
-      } else {
-        cubeData.mesh.rotation.y = 0
-      }
-    }
+    },
   })
 
   return <group ref={groupRef} />
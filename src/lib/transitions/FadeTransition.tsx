@@ -0,0 +1,136 @@
+import { useEffect, useMemo } from 'react'
+import { useThree } from '@react-three/fiber'
+import * as THREE from 'three'
+import { TransitionProps, FadeMode } from '../types'
+import {
+  useTransitionReady,
+  useSteppedTransition,
+  easeInOutCubic,
+  setStepTextures,
+  getPlaneSize,
+  LoadingPlane,
+} from './utils'
+import vertexShader from '../shaders/plane.vert?raw'
+import fragmentShader from '../shaders/fade.frag?raw'
+
+interface FadeTransitionProps extends TransitionProps {
+  /** Dissolve straight across, dip through a colour, or dissolve in noisy patches. Defaults to 'dissolve' */
+  mode?: FadeMode
+  /** The colour to dip through in 'dip' mode. Defaults to black */
+  color?: string
+}
+
+// Matches uMode in fade.frag
+const FADE_MODES: Record<FadeMode, number> = {
+  dissolve: 0,
+  dip: 1,
+  noise: 2,
+}
+
+/** A crossfade with no movement, also used in place of other styles under reduced motion */
+export function FadeTransition({
+  slides,
+  currentIndex,
+  transitionDuration,
+  direction,
+  animate = true,
+  jumpBehavior = 'direct',
+  scrub,
+  textures,
+  aspectRatio = 3 / 2,
+  mode = 'dissolve',
+  color = '#000000',
+  fullscreen = false,
+  onReady,
+  onTransitionStart,
+  onTransitionProgress,
+  onTransitionEnd,
+}: FadeTransitionProps) {
+  const { viewport } = useThree()
+  const isReady = useTransitionReady(textures, currentIndex, onReady)
+
+  const { width: planeWidth, height: planeHeight } = getPlaneSize(viewport, aspectRatio, fullscreen)
+  const planeAspect = planeWidth / planeHeight
+
+  const shaderMaterial = useMemo(
+    () =>
+      new THREE.ShaderMaterial({
+        vertexShader,
+        fragmentShader,
+        uniforms: {
+          uCurrentTexture: { value: null },
+          uNextTexture: { value: null },
+          uProgress: { value: 0 },
+          uCurrentUv: { value: new THREE.Vector4(1, 1, 0, 0) },
+          uNextUv: { value: new THREE.Vector4(1, 1, 0, 0) },
+          uMode: { value: 0 },
+          uColor: { value: new THREE.Color() },
+          uAspect: { value: 1 },
+        },
+      }),
+    []
+  )
+
+  useEffect(() => {
+    return () => shaderMaterial.dispose()
+  }, [shaderMaterial])
+
+  useEffect(() => {
+    shaderMaterial.uniforms.uMode.value = FADE_MODES[mode] ?? FADE_MODES.dissolve
+    shaderMaterial.uniforms.uColor.value.set(color)
+  }, [mode, color, shaderMaterial])
+
+  const setTextures = (from: number, to: number) =>
+    setStepTextures(shaderMaterial, textures, from, to, planeAspect)
+
+  const showSlide = (index: number) => {
+    setTextures(index, index)
+    shaderMaterial.uniforms.uProgress.value = 0
+  }
+
+  const { displayedIndexRef, isAnimatingRef, stepRef } = useSteppedTransition({
+    slides,
+    currentIndex,
+    transitionDuration,
+    direction,
+    animate,
+    jumpBehavior,
+    scrub,
+    textures,
+    isReady,
+    onTransitionStart,
+    onTransitionProgress,
+    onTransitionEnd,
+    onShow: showSlide,
+    onBegin: ({ from, to }) => {
+      setTextures(from, to)
+      shaderMaterial.uniforms.uProgress.value = 0
+    },
+    // Follow a drag linearly so the fade tracks the pointer
+    onFrame: (progress, { scrubbing }) => {
+      shaderMaterial.uniforms.uProgress.value = scrubbing ? progress : easeInOutCubic(progress)
+    },
+  })
+
+  // Re-crop when the plane changes shape, e.g. on resize in fullscreen mode
+  useEffect(() => {
+    shaderMaterial.uniforms.uAspect.value = planeAspect
+    const { from, to } = stepRef.current
+    if (isAnimatingRef.current) {
+      setTextures(from, to)
+    } else if (isReady) {
+      showSlide(displayedIndexRef.current)
+    }
+  }, [planeAspect, isReady, textures, shaderMaterial])
+
+  if (!isReady) {
+    return <LoadingPlane width={planeWidth} height={planeHeight} />
+  }
+
+  return (
+    <mesh>
+      <planeGeometry args={[planeWidth, planeHeight]} />
+      <primitive object={shaderMaterial} attach="material" />
+    </mesh>
+  )
+}
@@ -1,117 +1,77 @@
-import { useRef, useEffect, useState, useMemo } from 'react'
-import { useThree, useFrame } from '@react-three/fiber'
+import { useRef, useEffect, useMemo } from 'react'
+import { useThree } from '@react-three/fiber'
 import * as THREE from 'three'
-import { SlideData } from '../types'
+import { TransitionProps } from '../types'
+import { useTransitionReady, useSteppedTransition, calculateCoverUV } from './utils'
 import vertexShader from '../shaders/glitch.vert?raw'
 import fragmentShader from '../shaders/glitch.frag?raw'
 
-interface GlitchTransitionProps {
-  slides: SlideData[]
-  currentIndex: number
-  transitionDuration: number
-  direction: 'next' | 'prev'
-  aspectRatio?: number
+// Photosensitivity limits for safe mode, after WCAG 2.3.1 (Three Flashes or Below Threshold)
+const SAFE_GLITCH_INTERVAL = 0.34 // Seconds between glitch jumps, so fewer than 3 a second
+const SAFE_MAX_STEP_RATE = 2.5 // Slide swaps per second however fast a jump runs, so fewer than 3
+const SAFE_SWAP_WIDTH = 0.2 // Progress over which the slides blend instead of swapping in one frame
+// Every frame stays this close to the slide beneath, so two frames never differ
+// by the 10% luminance change that counts as a flash
+const SAFE_MAX_LUMINANCE_SHIFT = 0.045
+const SCANLINE_FLICKER = 0.03
+
+interface GlitchTransitionProps extends TransitionProps {
   aberrationIntensity?: number
   scanlinesIntensity?: number
   grainIntensity?: number
-  fullscreen?: boolean
-  onReady?: () => void
-}
-
-interface TextureData {
-  texture: THREE.Texture
-  imageAspect: number
-}
-
-// Calculate UV scale and offset for "cover" behavior (crop to fill)
-const calculateCoverUV = (imageAspect: number, targetAspect: number) => {
-  let scaleX = 1
-  let scaleY = 1
-  let offsetX = 0
-  let offsetY = 0
-
-  if (imageAspect > targetAspect) {
-    // Image is wider than target - crop sides
-    scaleX = targetAspect / imageAspect
-    offsetX = (1 - scaleX) / 2
-  } else {
-    // Image is taller than target - crop top/bottom
-    scaleY = imageAspect / targetAspect
-    offsetY = (1 - scaleY) / 2
-  }
-
-  return { scaleX, scaleY, offsetX, offsetY }
+  /** Limit flashing and brightness changes for photosensitive viewers. Defaults to true */
+  safeMode?: boolean
 }
 
 export function GlitchTransition({
   slides,
   currentIndex,
   transitionDuration,
+  direction,
+  animate = true,
+  jumpBehavior = 'direct',
+  scrub,
+  textures,
   aspectRatio = 3 / 2,
   aberrationIntensity = 0.5,
   scanlinesIntensity = 0.5,
   grainIntensity = 0.5,
+  safeMode = true,
   fullscreen = false,
   onReady,
+  onTransitionStart,
+  onTransitionProgress,
+  onTransitionEnd,
 }: GlitchTransitionProps) {
   const { viewport } = useThree()
   const meshRef = useRef<THREE.Mesh>(null)
   const materialRef = useRef<THREE.ShaderMaterial>(null)
-  const [textureData, setTextureData] = useState<TextureData[]>([])
-  const [isReady, setIsReady] = useState(false)
+  const isReady = useTransitionReady(textures, currentIndex, onReady)
 
-  const prevIndexRef = useRef(currentIndex)
-  const progressRef = useRef(0)
-  const isAnimatingRef = useRef(false)
-
-  // Load all textures with image aspect ratio information
-  useEffect(() => {
-    const loadPromises = slides.map((slide) => {
-      return new Promise<TextureData>((resolve) => {
-        if (slide.image) {
-          const img = new Image()
-          img.crossOrigin = 'anonymous'
-          img.onload = () => {
-            const texture = new THREE.Texture(img)
-            texture.needsUpdate = true
-            texture.colorSpace = THREE.SRGBColorSpace
-            resolve({
-              texture,
-              imageAspect: img.width / img.height,
-            })
-          }
-          img.onerror = () => {
-            const canvas = document.createElement('canvas')
-            canvas.width = 512
-            canvas.height = 512
-            const ctx = canvas.getContext('2d')!
-            ctx.fillStyle = slide.backgroundColor || '#333'
-            ctx.fillRect(0, 0, 512, 512)
-            const fallback = new THREE.CanvasTexture(canvas)
-            fallback.colorSpace = THREE.SRGBColorSpace
-            resolve({ texture: fallback, imageAspect: 1 })
-          }
-          img.src = slide.image
-        } else {
-          const canvas = document.createElement('canvas')
-          canvas.width = 512
-          canvas.height = 512
-          const ctx = canvas.getContext('2d')!
-          ctx.fillStyle = slide.backgroundColor || '#333'
-          ctx.fillRect(0, 0, 512, 512)
-          const fallback = new THREE.CanvasTexture(canvas)
-          fallback.colorSpace = THREE.SRGBColorSpace
-          resolve({ texture: fallback, imageAspect: 1 })
-        }
-      })
-    })
-
-    Promise.all(loadPromises).then((loaded) => {
-      setTextureData(loaded)
-      setIsReady(true)
-      onReady?.()
-    })
-  }, [slides, onReady])
+  // Track time and glitch state for erratic movement
+  const timeRef = useRef(0)
+  const glitchStateRef = useRef({
+    // Layer 1 state
+    layer1TargetX: 0,
+    layer1TargetY: 0,
+    layer1CurrentX: 0,
+    layer1CurrentY: 0,
+    layer1NextGlitch: 0,
+    layer1GlitchSpeed: 0.1,
+    // Layer 2 state
+    layer2TargetX: 0,
+    layer2TargetY: 0,
+    layer2CurrentX: 0,
+    layer2CurrentY: 0,
+    layer2NextGlitch: 0,
+    layer2GlitchSpeed: 0.1,
+    // Hue state
+    hue1Target: 0,
+    hue1Current: 0,
+    hue2Target: 0,
+    hue2Current: 0,
+    hueNextGlitch: 0,
+  })
 
   // Create shader material
   const shaderMaterial = useMemo(() => {
@@ -125,6 +85,7 @@ export function GlitchTransition({
         uShowNext: { value: 0 },
         uAberrationAmount: { value: 0 },
         uTime: { value: 0 },
+        uGrainTime: { value: 0 },
         uOverlayIntensity: { value: 0 },
         uLayer1Offset: { value: new THREE.Vector2(0, 0) },
         uLayer2Offset: { value: new THREE.Vector2(0, 0) },
@@ -132,6 +93,8 @@ export function GlitchTransition({
         uHueShift2: { value: 0 },
         uScanlinesIntensity: { value: 0 },
         uGrainIntensity: { value: 0 },
+        uFlickerAmount: { value: SCANLINE_FLICKER },
+        uMaxLuminanceShift: { value: 1 },
         uUvScale: { value: new THREE.Vector2(1, 1) },
         uUvOffset: { value: new THREE.Vector2(0, 0) },
       },
@@ -139,75 +102,89 @@ export function GlitchTransition({
     return material
   }, [])
 
-  // Update textures when ready
   useEffect(() => {
-    if (!isReady || textureData.length === 0) return
-
-    shaderMaterial.uniforms.uCurrentTexture.value = textureData[currentIndex].texture
-    shaderMaterial.uniforms.uNextTexture.value = textureData[currentIndex].texture
-    prevIndexRef.current = currentIndex
-  }, [isReady, textureData, shaderMaterial])
+    return () => shaderMaterial.dispose()
+  }, [shaderMaterial])
 
-  // Handle slide changes
   useEffect(() => {
-    if (!isReady || textureData.length === 0) return
-    if (currentIndex === prevIndexRef.current) return
-
-    // Set up transition
-    shaderMaterial.uniforms.uCurrentTexture.value = textureData[prevIndexRef.current].texture
-    shaderMaterial.uniforms.uNextTexture.value = textureData[currentIndex].texture
+    shaderMaterial.uniforms.uFlickerAmount.value = safeMode ? 0 : SCANLINE_FLICKER
+    shaderMaterial.uniforms.uMaxLuminanceShift.value = safeMode ? SAFE_MAX_LUMINANCE_SHIFT : 1
+  }, [safeMode, shaderMaterial])
+
+  // When to glitch again, held back in safe mode so jumps can't flash 3 or more times a second
+  const nextGlitchTime = (time: number, interval: number) =>
+    time + (safeMode ? Math.max(interval, SAFE_GLITCH_INTERVAL) : interval)
+
+  // Show a slide with every glitch effect switched off
+  const showSlide = (index: number) => {
+    const texture = textures[index]?.texture ?? null
+    const glitch = glitchStateRef.current
+    // Set both textures to the same one
+    shaderMaterial.uniforms.uCurrentTexture.value = texture
+    shaderMaterial.uniforms.uNextTexture.value = texture
     shaderMaterial.uniforms.uProgress.value = 0
+    shaderMaterial.uniforms.uShowNext.value = 0
     shaderMaterial.uniforms.uAberrationAmount.value = 0
+    shaderMaterial.uniforms.uOverlayIntensity.value = 0
+    shaderMaterial.uniforms.uLayer1Offset.value.set(0, 0)
+    shaderMaterial.uniforms.uLayer2Offset.value.set(0, 0)
+    shaderMaterial.uniforms.uHueShift1.value = 0
+    shaderMaterial.uniforms.uHueShift2.value = 0
+    shaderMaterial.uniforms.uScanlinesIntensity.value = 0
+    shaderMaterial.uniforms.uGrainIntensity.value = 0
+    timeRef.current = 0
+    // Reset glitch state
+    glitch.layer1CurrentX = 0
+    glitch.layer1CurrentY = 0
+    glitch.layer2CurrentX = 0
+    glitch.layer2CurrentY = 0
+    glitch.hue1Current = 0
+    glitch.hue2Current = 0
+    glitch.layer1NextGlitch = 0
+    glitch.layer2NextGlitch = 0
+    glitch.hueNextGlitch = 0
+  }
 
-    progressRef.current = 0
-    isAnimatingRef.current = true
-    prevIndexRef.current = currentIndex
-  }, [currentIndex, isReady, textureData, shaderMaterial])
-
-  // Track time and glitch state for erratic movement
-  const timeRef = useRef(0)
-  const glitchStateRef = useRef({
-    // Layer 1 state
-    layer1TargetX: 0,
-    layer1TargetY: 0,
-    layer1CurrentX: 0,
-    layer1CurrentY: 0,
-    layer1NextGlitch: 0,
-    layer1GlitchSpeed: 0.1,
-    // Layer 2 state
-    layer2TargetX: 0,
-    layer2TargetY: 0,
-    layer2CurrentX: 0,
-    layer2CurrentY: 0,
-    layer2NextGlitch: 0,
-    layer2GlitchSpeed: 0.1,
-    // Hue state
-    hue1Target: 0,
-    hue1Current: 0,
-    hue2Target: 0,
-    hue2Current: 0,
-    hueNextGlitch: 0,
-  })
-
-  // Animation loop
-  useFrame((_, delta) => {
-    if (!materialRef.current) return
-
-    if (isAnimatingRef.current) {
-      const speed = (1 / transitionDuration) * 1000
-      progressRef.current = Math.min(progressRef.current + delta * speed, 1)
+  useSteppedTransition({
+    slides,
+    currentIndex,
+    transitionDuration,
+    direction,
+    animate,
+    jumpBehavior,
+    scrub,
+    textures,
+    isReady,
+    maxStepRate: safeMode ? SAFE_MAX_STEP_RATE : undefined,
+    canRender: () => materialRef.current !== null,
+    onTransitionStart,
+    onTransitionProgress,
+    onTransitionEnd,
+    onShow: showSlide,
+    // Set up the shader for a glitch from one slide to another
+    onBegin: ({ from, to }) => {
+      shaderMaterial.uniforms.uCurrentTexture.value = textures[from]?.texture ?? null
+      shaderMaterial.uniforms.uNextTexture.value = textures[to]?.texture ?? null
+      shaderMaterial.uniforms.uProgress.value = 0
+      shaderMaterial.uniforms.uAberrationAmount.value = 0
+    },
+    onFrame: (progress, _step, delta) => {
       timeRef.current += delta
-
-      const progress = progressRef.current
       const time = timeRef.current
       const glitch = glitchStateRef.current
       shaderMaterial.uniforms.uProgress.value = progress
       shaderMaterial.uniforms.uTime.value = time
+      // Safe mode only reshuffles the grain at the glitch rate, not every frame
+      shaderMaterial.uniforms.uGrainTime.value = safeMode
+        ? Math.floor(time / SAFE_GLITCH_INTERVAL) * SAFE_GLITCH_INTERVAL
+        : time
 
       // Phase 1 (0-0.5): Effects ramp up on current slide
       // Phase 2 (0.5-1): Effects ramp down on next slide
-      // Swap happens at progress = 0.5
-      const showNext = progress >= 0.5 ? 1 : 0
+      // Swap happens at progress = 0.5, blended over a few frames in safe mode
+      const showNext = safeMode
+        ? THREE.MathUtils.smoothstep(progress, 0.5 - SAFE_SWAP_WIDTH / 2, 0.5 + SAFE_SWAP_WIDTH / 2)
+        : progress >= 0.5 ? 1 : 0
       shaderMaterial.uniforms.uShowNext.value = showNext
 
       // Use a flattened sine curve that holds at peak longer
@@ -238,7 +215,7 @@ export function GlitchTransition({
         // Random speed: sometimes very fast, sometimes slow
         glitch.layer1GlitchSpeed = Math.random() < 0.3 ? 0.5 + Math.random() * 0.5 : 0.05 + Math.random() * 0.15
         // Random interval until next glitch (fast bursts vs slow periods)
-        glitch.layer1NextGlitch = time + (Math.random() < 0.4 ? 0.02 + Math.random() * 0.05 : 0.1 + Math.random() * 0.2)
+        glitch.layer1NextGlitch = nextGlitchTime(time, Math.random() < 0.4 ? 0.02 + Math.random() * 0.05 : 0.1 + Math.random() * 0.2)
       }
       // Lerp toward target with variable speed
       glitch.layer1CurrentX += (glitch.layer1TargetX - glitch.layer1CurrentX) * glitch.layer1GlitchSpeed
@@ -250,7 +227,7 @@ export function GlitchTransition({
         glitch.layer2TargetX = (Math.random() - 0.5) * 0.1
         glitch.layer2TargetY = (Math.random() - 0.5) * 0.08
         glitch.layer2GlitchSpeed = Math.random() < 0.3 ? 0.5 + Math.random() * 0.5 : 0.05 + Math.random() * 0.15
-        glitch.layer2NextGlitch = time + (Math.random() < 0.4 ? 0.02 + Math.random() * 0.05 : 0.1 + Math.random() * 0.2)
+        glitch.layer2NextGlitch = nextGlitchTime(time, Math.random() < 0.4 ? 0.02 + Math.random() * 0.05 : 0.1 + Math.random() * 0.2)
       }
       glitch.layer2CurrentX += (glitch.layer2TargetX - glitch.layer2CurrentX) * glitch.layer2GlitchSpeed
       glitch.layer2CurrentY += (glitch.layer2TargetY - glitch.layer2CurrentY) * glitch.layer2GlitchSpeed
@@ -260,40 +237,13 @@ export function GlitchTransition({
       if (time >= glitch.hueNextGlitch) {
         glitch.hue1Target = Math.random()
         glitch.hue2Target = Math.random()
-        glitch.hueNextGlitch = time + (Math.random() < 0.5 ? 0.03 + Math.random() * 0.07 : 0.15 + Math.random() * 0.25)
+        glitch.hueNextGlitch = nextGlitchTime(time, Math.random() < 0.5 ? 0.03 + Math.random() * 0.07 : 0.15 + Math.random() * 0.25)
       }
       glitch.hue1Current += (glitch.hue1Target - glitch.hue1Current) * 0.15
       glitch.hue2Current += (glitch.hue2Target - glitch.hue2Current) * 0.15
       shaderMaterial.uniforms.uHueShift1.value = glitch.hue1Current
       shaderMaterial.uniforms.uHueShift2.value = glitch.hue2Current
-
-      if (progressRef.current >= 1) {
-        isAnimatingRef.current = false
-        // Set both textures to the current one
-        shaderMaterial.uniforms.uCurrentTexture.value = textureData[currentIndex].texture
-        shaderMaterial.uniforms.uNextTexture.value = textureData[currentIndex].texture
-        shaderMaterial.uniforms.uShowNext.value = 0
-        shaderMaterial.uniforms.uAberrationAmount.value = 0
-        shaderMaterial.uniforms.uOverlayIntensity.value = 0
-        shaderMaterial.uniforms.uLayer1Offset.value.set(0, 0)
-        shaderMaterial.uniforms.uLayer2Offset.value.set(0, 0)
-        shaderMaterial.uniforms.uHueShift1.value = 0
-        shaderMaterial.uniforms.uHueShift2.value = 0
-        shaderMaterial.uniforms.uScanlinesIntensity.value = 0
-        shaderMaterial.uniforms.uGrainIntensity.value = 0
-        timeRef.current = 0
-        // Reset glitch state
-        glitch.layer1CurrentX = 0
-        glitch.layer1CurrentY = 0
-        glitch.layer2CurrentX = 0
-        glitch.layer2CurrentY = 0
-        glitch.hue1Current = 0
-        glitch.hue2Current = 0
-        glitch.layer1NextGlitch = 0
-        glitch.layer2NextGlitch = 0
-        glitch.hueNextGlitch = 0
-      }
-    }
+    },
   })
 
   // Calculate plane dimensions based on aspect ratio and fullscreen mode
@@ -303,7 +253,7 @@ export function GlitchTransition({
   let uvOffset = { x: 0, y: 0 }
 
   // Get the current image's aspect ratio for cover UV calculation
-  const currentImageAspect = textureData.length > 0 ? textureData[currentIndex]?.imageAspect ?? aspectRatio : aspectRatio
+  const currentImageAspect = textures.length > 0 ? textures[currentIndex]?.imageAspect ?? aspectRatio : aspectRatio
 
   if (fullscreen) {
     // In fullscreen mode, fill the entire viewport
@@ -315,10 +265,10 @@ export function GlitchTransition({
 
     // First, apply cover for the source image to the target aspect ratio
     const imageCover = calculateCoverUV(currentImageAspect, viewportAspect)
-    uvScale.x = imageCover.scaleX
-    uvScale.y = imageCover.scaleY
-    uvOffset.x = imageCover.offsetX
-    uvOffset.y = imageCover.offsetY
+    uvScale.x = imageCover.scaleU
+    uvScale.y = imageCover.scaleV
+    uvOffset.x = imageCover.offsetU
+    uvOffset.y = imageCover.offsetV
   } else {
     // Standard mode: fit within 80% of viewport
     const maxWidth = viewport.width * 0.8
@@ -334,10 +284,10 @@ export function GlitchTransition({
 
     // Apply cover UV for the source image to crop it to the target aspect ratio
     const imageCover = calculateCoverUV(currentImageAspect, aspectRatio)
-    uvScale.x = imageCover.scaleX
-    uvScale.y = imageCover.scaleY
-    uvOffset.x = imageCover.offsetX
-    uvOffset.y = imageCover.offsetY
+    uvScale.x = imageCover.scaleU
+    uvScale.y = imageCover.scaleV
+    uvOffset.x = imageCover.offsetU
+    uvOffset.y = imageCover.offsetV
   }
 
   // Update UV uniforms
@@ -0,0 +1,172 @@
+import { useRef, useEffect, useMemo } from 'react'
+import { useThree } from '@react-three/fiber'
+import * as THREE from 'three'
+import { TransitionProps, SlideTexture } from '../types'
+import {
+  useTransitionReady,
+  useSteppedTransition,
+  easeInOutCubic,
+  setCoverUv,
+  getPlaneSize,
+  LoadingPlane,
+} from './utils'
+import vertexShader from '../shaders/pageflip.vert?raw'
+import fragmentShader from '../shaders/pageflip.frag?raw'
+
+type PageFlipTransitionProps = TransitionProps
+
+// The page turns from its right edge, bottom corner first
+const CURL_AXIS = new THREE.Vector2(1, -0.25).normalize()
+// Curl radius as a fraction of the page width
+const CURL_RADIUS = 0.08
+// Shadow strength on the page underneath, next to the curl
+const CURL_SHADOW = 0.45
+// The turned page fades out over the end of the turn, once it has left the slide
+const FADE_START = 0.85
+
+const createPageMaterial = (bend: boolean) =>
+  new THREE.ShaderMaterial({
+    vertexShader,
+    fragmentShader,
+    side: bend ? THREE.DoubleSide : THREE.FrontSide,
+    transparent: bend,
+    // The page underneath never hides the turning page, even where they touch
+    depthWrite: bend,
+    uniforms: {
+      uTexture: { value: null },
+      uUv: { value: new THREE.Vector4(1, 1, 0, 0) },
+      uOpacity: { value: 1 },
+      uCurl: { value: 0 },
+      uAxis: { value: CURL_AXIS },
+      uRadius: { value: 0 },
+      uBend: { value: bend ? 1 : 0 },
+      uShadow: { value: 0 },
+    },
+  })
+
+/** A book-style page turn. Going back, the previous page turns back over the current one */
+export function PageFlipTransition({
+  slides,
+  currentIndex,
+  transitionDuration,
+  direction,
+  animate = true,
+  jumpBehavior = 'direct',
+  scrub,
+  textures,
+  aspectRatio = 3 / 2,
+  fullscreen = false,
+  onReady,
+  onTransitionStart,
+  onTransitionProgress,
+  onTransitionEnd,
+}: PageFlipTransitionProps) {
+  const { viewport } = useThree()
+  const underRef = useRef<THREE.Mesh>(null)
+  const isReady = useTransitionReady(textures, currentIndex, onReady)
+
+  const { width: planeWidth, height: planeHeight } = getPlaneSize(viewport, aspectRatio, fullscreen)
+  const planeAspect = planeWidth / planeHeight
+  const radius = planeWidth * CURL_RADIUS
+
+  // The curl line starts just past the leading corner and ends once the
+  // whole page has rolled over
+  const curlStart =
+    (Math.abs(CURL_AXIS.x) * planeWidth) / 2 + (Math.abs(CURL_AXIS.y) * planeHeight) / 2
+  const curlEnd = -curlStart - Math.PI * radius
+
+  const pageMaterial = useMemo(() => createPageMaterial(true), [])
+  const underMaterial = useMemo(() => createPageMaterial(false), [])
+
+  useEffect(() => {
+    return () => {
+      pageMaterial.dispose()
+      underMaterial.dispose()
+    }
+  }, [pageMaterial, underMaterial])
+
+  const setPageTexture = (material: THREE.ShaderMaterial, slide: SlideTexture | undefined) => {
+    material.uniforms.uTexture.value = slide?.texture ?? null
+    setCoverUv(material.uniforms.uUv.value, slide, planeAspect)
+  }
+
+  // Lay the turning page out for a point in the turn, 0 flat to 1 turned over
+  const setTurn = (turn: number) => {
+    const curl = curlStart + (curlEnd - curlStart) * turn
+    const opacity = 1 - THREE.MathUtils.smoothstep(turn, FADE_START, 1)
+    for (const material of [pageMaterial, underMaterial]) {
+      material.uniforms.uCurl.value = curl
+      material.uniforms.uRadius.value = radius
+    }
+    pageMaterial.uniforms.uOpacity.value = opacity
+    underMaterial.uniforms.uShadow.value = CURL_SHADOW * opacity
+  }
+
+  // Show a slide lying flat, with nothing underneath
+  const showSlide = (index: number) => {
+    setPageTexture(pageMaterial, textures[index])
+    setTurn(0)
+    if (underRef.current) underRef.current.visible = false
+  }
+
+  // Turning back plays a forward turn of the previous page in reverse
+  const { displayedIndexRef, isAnimatingRef, stepRef } = useSteppedTransition({
+    slides,
+    currentIndex,
+    transitionDuration,
+    direction,
+    animate,
+    jumpBehavior,
+    scrub,
+    textures,
+    isReady,
+    onTransitionStart,
+    onTransitionProgress,
+    onTransitionEnd,
+    onShow: showSlide,
+    // Forward turns the current page away to reveal the next one beneath it;
+    // backward brings the previous page back down over the current one
+    onBegin: ({ from, to, backward }) => {
+      setPageTexture(pageMaterial, textures[backward ? to : from])
+      setPageTexture(underMaterial, textures[backward ? from : to])
+      setTurn(backward ? 1 : 0)
+      if (underRef.current) underRef.current.visible = true
+    },
+    // Follow a drag directly so the page corner stays with the pointer
+    onFrame: (progress, { scrubbing, backward }) => {
+      const t = scrubbing ? progress : easeInOutCubic(progress)
+      setTurn(backward ? 1 - t : t)
+    },
+  })
+
+  // Re-crop and re-measure the curl when the page changes size
+  useEffect(() => {
+    if (isAnimatingRef.current) {
+      const { from, to, backward } = stepRef.current
+      setPageTexture(pageMaterial, textures[backward ? to : from])
+      setPageTexture(underMaterial, textures[backward ? from : to])
+    } else if (isReady) {
+      showSlide(displayedIndexRef.current)
+    }
+  }, [planeWidth, planeHeight, isReady, textures, pageMaterial, underMaterial])
+
+  if (!isReady) {
+    return <LoadingPlane width={planeWidth} height={planeHeight} />
+  }
+
+  return (
+    <>
+      {/* The slide beneath the turning page, drawn first */}
+      <mesh ref={underRef} renderOrder={-1} visible={false}>
+        <planeGeometry args={[planeWidth, planeHeight]} />
+        <primitive object={underMaterial} attach="material" />
+      </mesh>
+
+      {/* The turning page, subdivided so it can bend smoothly */}
+      <mesh>
+        <planeGeometry args={[planeWidth, planeHeight, 64, 32]} />
+        <primitive object={pageMaterial} attach="material" />
+      </mesh>
+    </>
+  )
+}
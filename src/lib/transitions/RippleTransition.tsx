@@ -0,0 +1,158 @@
+import { useEffect, useMemo } from 'react'
+import { useThree } from '@react-three/fiber'
+import * as THREE from 'three'
+import { TransitionProps, RippleOrigin } from '../types'
+import {
+  useTransitionReady,
+  useSteppedTransition,
+  easeInOutCubic,
+  setStepTextures,
+  getPlaneSize,
+  LoadingPlane,
+} from './utils'
+import vertexShader from '../shaders/plane.vert?raw'
+import fragmentShader from '../shaders/ripple.frag?raw'
+
+interface RippleTransitionProps extends TransitionProps {
+  /** How far the waves bend the image, 0 to 1. Defaults to 0.5 */
+  amplitude?: number
+  /** Waves across the slide's height. Defaults to 12 */
+  frequency?: number
+  /** Where the waves start. Defaults to 'center' */
+  origin?: RippleOrigin
+}
+
+/** Waves spread out from a point, carrying the next slide in behind them */
+export function RippleTransition({
+  slides,
+  currentIndex,
+  transitionDuration,
+  direction,
+  animate = true,
+  jumpBehavior = 'direct',
+  scrub,
+  textures,
+  aspectRatio = 3 / 2,
+  amplitude = 0.5,
+  frequency = 12,
+  origin = 'center',
+  fullscreen = false,
+  onReady,
+  onTransitionStart,
+  onTransitionProgress,
+  onTransitionEnd,
+}: RippleTransitionProps) {
+  const { viewport, pointer } = useThree()
+  const isReady = useTransitionReady(textures, currentIndex, onReady)
+
+  const { width: planeWidth, height: planeHeight } = getPlaneSize(viewport, aspectRatio, fullscreen)
+  const planeAspect = planeWidth / planeHeight
+
+  const shaderMaterial = useMemo(
+    () =>
+      new THREE.ShaderMaterial({
+        vertexShader,
+        fragmentShader,
+        uniforms: {
+          uCurrentTexture: { value: null },
+          uNextTexture: { value: null },
+          uProgress: { value: 0 },
+          uCurrentUv: { value: new THREE.Vector4(1, 1, 0, 0) },
+          uNextUv: { value: new THREE.Vector4(1, 1, 0, 0) },
+          uOrigin: { value: new THREE.Vector2(0.5, 0.5) },
+          uMaxDistance: { value: 1 },
+          uAspect: { value: 1 },
+          uAmplitude: { value: 0.5 },
+          uFrequency: { value: 12 },
+        },
+      }),
+    []
+  )
+
+  useEffect(() => {
+    return () => shaderMaterial.dispose()
+  }, [shaderMaterial])
+
+  useEffect(() => {
+    shaderMaterial.uniforms.uAmplitude.value = amplitude
+    shaderMaterial.uniforms.uFrequency.value = frequency
+  }, [amplitude, frequency, shaderMaterial])
+
+  // Place the waves' origin for a new step, in plane UVs
+  const setOrigin = () => {
+    const uniform: THREE.Vector2 = shaderMaterial.uniforms.uOrigin.value
+    if (origin === 'pointer') {
+      // The pointer is in normalized device coordinates, -1 to 1 across the canvas
+      uniform.set(
+        (pointer.x * viewport.width) / 2 / planeWidth + 0.5,
+        (pointer.y * viewport.height) / 2 / planeHeight + 0.5
+      )
+    } else if (origin === 'center') {
+      uniform.set(0.5, 0.5)
+    } else {
+      // Measured from the top left, like CSS
+      uniform.set(origin.x, 1 - origin.y)
+    }
+    uniform.clampScalar(0, 1)
+
+    // Far enough for the front to clear the farthest corner
+    const x = Math.max(uniform.x, 1 - uniform.x) * planeAspect
+    const y = Math.max(uniform.y, 1 - uniform.y)
+    shaderMaterial.uniforms.uMaxDistance.value = Math.hypot(x, y)
+  }
+
+  const setTextures = (from: number, to: number) =>
+    setStepTextures(shaderMaterial, textures, from, to, planeAspect)
+
+  const showSlide = (index: number) => {
+    setTextures(index, index)
+    shaderMaterial.uniforms.uProgress.value = 0
+  }
+
+  const { displayedIndexRef, isAnimatingRef, stepRef } = useSteppedTransition({
+    slides,
+    currentIndex,
+    transitionDuration,
+    direction,
+    animate,
+    jumpBehavior,
+    scrub,
+    textures,
+    isReady,
+    onTransitionStart,
+    onTransitionProgress,
+    onTransitionEnd,
+    onShow: showSlide,
+    onBegin: ({ from, to }) => {
+      setTextures(from, to)
+      setOrigin()
+      shaderMaterial.uniforms.uProgress.value = 0
+    },
+    // Follow a drag linearly so the wave front tracks the pointer
+    onFrame: (progress, { scrubbing }) => {
+      shaderMaterial.uniforms.uProgress.value = scrubbing ? progress : easeInOutCubic(progress)
+    },
+  })
+
+  // Re-crop when the plane changes shape, e.g. on resize in fullscreen mode
+  useEffect(() => {
+    shaderMaterial.uniforms.uAspect.value = planeAspect
+    const { from, to } = stepRef.current
+    if (isAnimatingRef.current) {
+      setTextures(from, to)
+    } else if (isReady) {
+      showSlide(displayedIndexRef.current)
+    }
+  }, [planeAspect, isReady, textures, shaderMaterial])
+
+  if (!isReady) {
+    return <LoadingPlane width={planeWidth} height={planeHeight} />
+  }
+
+  return (
+    <mesh>
+      <planeGeometry args={[planeWidth, planeHeight]} />
+      <primitive object={shaderMaterial} attach="material" />
+    </mesh>
+  )
+}
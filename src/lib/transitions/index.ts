@@ -1,3 +1,7 @@
 export { CascadeTransition } from './CascadeTransition'
 export { CubeTransition } from './CubeTransition'
 export { GlitchTransition } from './GlitchTransition'
+export { FadeTransition } from './FadeTransition'
+export { PageFlipTransition } from './PageFlipTransition'
+export { RippleTransition } from './RippleTransition'
+export { registerTransition, unregisterTransition, getTransition } from './registry'
@@ -0,0 +1,21 @@
+import { TransitionComponent } from '../types'
+
+const registry = new Map<string, TransitionComponent>()
+
+/**
+ * Register a custom transition under a style name so it can be used as
+ * `<Slideshow style={name} />`. Register at module scope, before the
+ * slideshow renders - registration does not re-render mounted slideshows.
+ * Registering a built-in name ('cascade', 'cube', 'glitch') replaces it.
+ */
+export function registerTransition(name: string, component: TransitionComponent) {
+  registry.set(name, component)
+}
+
+export function unregisterTransition(name: string) {
+  registry.delete(name)
+}
+
+export function getTransition(name: string): TransitionComponent | undefined {
+  return registry.get(name)
+}
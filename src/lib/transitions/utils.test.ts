@@ -0,0 +1,164 @@
+import { renderHook } from '@testing-library/react'
+import { describe, it, expect, vi } from 'vitest'
+import { useFrame } from '@react-three/fiber'
+import { SlideTexture } from '../types'
+import { getStepDistance, getNextStepIndex, getStepSpeed, useSteppedTransition } from './utils'
+
+// The frame loop needs a canvas, so tests step it by hand
+vi.mock('@react-three/fiber', () => ({ useFrame: vi.fn() }))
+
+const runFrame = (delta: number) => vi.mocked(useFrame).mock.lastCall![0]({} as never, delta)
+
+const allLoaded = () => true
+
+describe('getStepDistance', () => {
+  it('counts steps in the given direction', () => {
+    expect(getStepDistance(1, 4, 'forward', 6)).toBe(3)
+    expect(getStepDistance(4, 1, 'backward', 6)).toBe(3)
+  })
+
+  it('wraps around the ends', () => {
+    expect(getStepDistance(4, 1, 'forward', 6)).toBe(3)
+    expect(getStepDistance(1, 4, 'backward', 6)).toBe(3)
+  })
+
+  it('is zero for an empty slideshow or the same slide', () => {
+    expect(getStepDistance(0, 0, 'forward', 0)).toBe(0)
+    expect(getStepDistance(2, 2, 'backward', 5)).toBe(0)
+  })
+})
+
+describe('getNextStepIndex', () => {
+  it('returns null once the target is displayed', () => {
+    expect(getNextStepIndex(3, 3, 'forward', 5, allLoaded)).toBeNull()
+  })
+
+  it('steps one slide at a time, wrapping around', () => {
+    expect(getNextStepIndex(0, 3, 'forward', 5, allLoaded)).toBe(1)
+    expect(getNextStepIndex(4, 1, 'forward', 5, allLoaded)).toBe(0)
+    expect(getNextStepIndex(0, 3, 'backward', 5, allLoaded)).toBe(4)
+  })
+
+  it('skips slides that have not loaded', () => {
+    const isLoaded = (index: number) => index !== 1 && index !== 2
+    expect(getNextStepIndex(0, 3, 'forward', 5, isLoaded)).toBe(3)
+  })
+
+  it('returns null when nothing on the way has loaded', () => {
+    expect(getNextStepIndex(0, 3, 'forward', 5, () => false)).toBeNull()
+  })
+
+  it('goes straight to a loaded target with direct', () => {
+    expect(getNextStepIndex(0, 3, 'forward', 5, allLoaded, 'direct')).toBe(3)
+    expect(getNextStepIndex(0, 3, 'forward', 5, (index) => index !== 3, 'direct')).toBeNull()
+  })
+})
+
+describe('getStepSpeed', () => {
+  it('plays every step at normal speed unless accelerated', () => {
+    expect(getStepSpeed(0, 9, 'forward', 10)).toBe(1)
+    expect(getStepSpeed(0, 9, 'forward', 10, 'direct')).toBe(1)
+  })
+
+  it('speeds up with the slides remaining, up to 6x', () => {
+    expect(getStepSpeed(0, 1, 'forward', 20, 'sequential-accelerated')).toBe(1)
+    expect(getStepSpeed(0, 2, 'forward', 20, 'sequential-accelerated')).toBe(1)
+    expect(getStepSpeed(0, 8, 'forward', 20, 'sequential-accelerated')).toBe(4)
+    expect(getStepSpeed(0, 19, 'forward', 20, 'sequential-accelerated')).toBe(6)
+  })
+
+  it('takes about five transitions for a 10-slide jump', () => {
+    let duration = 0
+    for (let displayed = 0; displayed < 10; displayed++) {
+      duration += 1 / getStepSpeed(displayed, 10, 'forward', 20, 'sequential-accelerated')
+    }
+    expect(duration).toBeCloseTo(4.86, 2)
+  })
+})
+
+describe('useSteppedTransition', () => {
+  const slides = [
+    { id: 1, image: 'a.jpg' },
+    { id: 2, image: 'b.jpg' },
+  ]
+  const createTexture = (imageAspect = 1) => ({ imageAspect }) as unknown as SlideTexture
+
+  const renderStepped = (textures: (SlideTexture | undefined)[], onShow: (index: number) => void) =>
+    renderHook(
+      ({ textures }) =>
+        useSteppedTransition({
+          slides,
+          currentIndex: 1,
+          transitionDuration: 1000,
+          direction: 'next',
+          textures,
+          isReady: textures[1] !== undefined,
+          onShow,
+          onBegin: vi.fn(),
+          onFrame: vi.fn(),
+        }),
+      { initialProps: { textures } }
+    )
+
+  it('shows the current slide once it is ready', () => {
+    const onShow = vi.fn()
+    const { rerender } = renderStepped([undefined, undefined], onShow)
+    expect(onShow).not.toHaveBeenCalled()
+
+    rerender({ textures: [undefined, createTexture()] })
+
+    expect(onShow).toHaveBeenCalledTimes(1)
+    expect(onShow).toHaveBeenCalledWith(1)
+  })
+
+  it('redraws the slide at rest when its texture is replaced', () => {
+    const shown: (SlideTexture | undefined)[] = []
+    let textures = [createTexture(), createTexture()]
+    const onShow = (index: number) => shown.push(textures[index])
+    const { rerender } = renderStepped(textures, onShow)
+
+    // A new slides array that keeps the same texture doesn't redraw
+    textures = [createTexture(), textures[1]]
+    rerender({ textures })
+    expect(shown).toHaveLength(1)
+
+    // Edited content arrives as a new texture for the slide on screen
+    const edited = createTexture(2)
+    textures = [textures[0], edited]
+    rerender({ textures })
+    expect(shown).toHaveLength(2)
+    expect(shown[1]).toBe(edited)
+  })
+
+  it('ends a running step when it unmounts mid-animation', () => {
+    const textures = [createTexture(), createTexture()]
+    const onTransitionStart = vi.fn()
+    const onTransitionEnd = vi.fn()
+    const { rerender, unmount } = renderHook(
+      ({ currentIndex }) =>
+        useSteppedTransition({
+          slides,
+          currentIndex,
+          transitionDuration: 1000,
+          direction: 'next',
+          textures,
+          isReady: true,
+          onShow: vi.fn(),
+          onBegin: vi.fn(),
+          onFrame: vi.fn(),
+          onTransitionStart,
+          onTransitionEnd,
+        }),
+      { initialProps: { currentIndex: 0 } }
+    )
+
+    rerender({ currentIndex: 1 })
+    runFrame(0.1)
+    expect(onTransitionStart).toHaveBeenCalledWith(0, 1, 'next')
+
+    unmount()
+
+    expect(onTransitionEnd).toHaveBeenCalledTimes(1)
+    expect(onTransitionEnd).toHaveBeenCalledWith(0, 1)
+  })
+})
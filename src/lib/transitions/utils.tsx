@@ -0,0 +1,427 @@
+import { useState, useEffect, useRef } from 'react'
+import { MutableRefObject } from 'react'
+import { useFrame } from '@react-three/fiber'
+import type { ShaderMaterial, Vector4 } from 'three'
+import { SlideTexture, JumpBehavior, ScrubState, TransitionProps } from '../types'
+
+/**
+ * Latches true once the current slide's texture has loaded and fires onReady.
+ * Stays true afterwards so navigating to a slide that is still loading
+ * waits in place instead of falling back to the loading state.
+ */
+export function useTransitionReady(
+  textures: (SlideTexture | undefined)[],
+  currentIndex: number,
+  onReady?: () => void
+) {
+  const [isReady, setIsReady] = useState(false)
+  const hasCurrentTexture = textures[currentIndex] !== undefined
+
+  useEffect(() => {
+    if (hasCurrentTexture) setIsReady(true)
+  }, [hasCurrentTexture])
+
+  useEffect(() => {
+    if (isReady) onReady?.()
+  }, [isReady, onReady])
+
+  return isReady
+}
+
+export const easeInOutCubic = (t: number): number => {
+  return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2
+}
+
+/** UV scale and offset for "cover" behavior (crop to fill) */
+export const calculateCoverUV = (imageAspect: number, targetAspect: number) => {
+  let scaleU = 1
+  let scaleV = 1
+  let offsetU = 0
+  let offsetV = 0
+
+  if (imageAspect > targetAspect) {
+    // Image is wider than target - crop sides
+    scaleU = targetAspect / imageAspect
+    offsetU = (1 - scaleU) / 2
+  } else {
+    // Image is taller than target - crop top/bottom
+    scaleV = imageAspect / targetAspect
+    offsetV = (1 - scaleV) / 2
+  }
+
+  return { scaleU, scaleV, offsetU, offsetV }
+}
+
+// Crop a slide to cover a plane, packed as a shader vec4 (scale, offset)
+export const setCoverUv = (uniform: Vector4, slide: SlideTexture | undefined, targetAspect: number) => {
+  const { scaleU, scaleV, offsetU, offsetV } = calculateCoverUV(
+    slide?.imageAspect ?? targetAspect,
+    targetAspect
+  )
+  uniform.set(scaleU, scaleV, offsetU, offsetV)
+}
+
+/**
+ * Point a two-slide material (uCurrentTexture and uNextTexture, cropped by
+ * uCurrentUv and uNextUv) at the slides a step goes between
+ */
+export const setStepTextures = (
+  material: ShaderMaterial,
+  textures: (SlideTexture | undefined)[],
+  from: number,
+  to: number,
+  targetAspect: number
+) => {
+  material.uniforms.uCurrentTexture.value = textures[from]?.texture ?? null
+  material.uniforms.uNextTexture.value = textures[to]?.texture ?? null
+  setCoverUv(material.uniforms.uCurrentUv.value, textures[from], targetAspect)
+  setCoverUv(material.uniforms.uNextUv.value, textures[to], targetAspect)
+}
+
+/** Size of a flat slide: the whole viewport in fullscreen mode, otherwise fit within 80% of it */
+export const getPlaneSize = (
+  viewport: { width: number; height: number },
+  aspectRatio: number,
+  fullscreen: boolean
+) => {
+  if (fullscreen) return { width: viewport.width, height: viewport.height }
+
+  const width = Math.min(viewport.width * 0.8, viewport.height * 0.8 * aspectRatio)
+  return { width, height: width / aspectRatio }
+}
+
+/** A dark plane shown until the first slide's texture is ready */
+export function LoadingPlane({ width, height }: { width: number; height: number }) {
+  return (
+    <mesh>
+      <planeGeometry args={[width, height]} />
+      <meshBasicMaterial color="#111" />
+    </mesh>
+  )
+}
+
+// A sequential-accelerated jump never plays a step faster than this
+const MAX_STEP_SPEED = 6
+
+/** Number of steps from displayed to target going in direction, wrapping around */
+export function getStepDistance(
+  displayed: number,
+  target: number,
+  direction: 'forward' | 'backward',
+  total: number
+): number {
+  if (total === 0) return 0
+  const distance = direction === 'forward' ? target - displayed : displayed - target
+  return ((distance % total) + total) % total
+}
+
+/**
+ * Next slide to animate to on the way from displayed to target.
+ * 'direct' goes straight to the target once it has loaded. The sequential
+ * behaviours step one slide at a time, skipping slides whose texture hasn't
+ * loaded yet. Returns null when nothing on the way is ready yet.
+ */
+export function getNextStepIndex(
+  displayed: number,
+  target: number,
+  direction: 'forward' | 'backward',
+  total: number,
+  isLoaded: (index: number) => boolean,
+  jumpBehavior: JumpBehavior = 'sequential'
+): number | null {
+  if (displayed === target) return null
+  if (jumpBehavior === 'direct') return isLoaded(target) ? target : null
+
+  let index = displayed
+
+  for (let step = 0; step < total && index !== target; step++) {
+    index = direction === 'forward' ? (index + 1) % total : (index - 1 + total) % total
+    if (isLoaded(index)) return index
+  }
+
+  return null
+}
+
+/**
+ * Speed multiplier for the step starting at displayed. Accelerated jumps play
+ * each step at half the number of slides still to go, up to MAX_STEP_SPEED, so
+ * they slow back down to normal speed for the last steps. A 10-slide jump
+ * takes about five transitions; each slide beyond a dozen adds a sixth of one.
+ */
+export function getStepSpeed(
+  displayed: number,
+  target: number,
+  direction: 'forward' | 'backward',
+  total: number,
+  jumpBehavior: JumpBehavior = 'sequential'
+): number {
+  if (jumpBehavior !== 'sequential-accelerated') return 1
+  const remaining = getStepDistance(displayed, target, direction, total)
+  return Math.min(Math.max(1, remaining / 2), MAX_STEP_SPEED)
+}
+
+/**
+ * The drag an idle transition should start following, if any: one that began
+ * on the displayed slide, hasn't been released and whose slide has loaded
+ */
+export function getScrubToFollow(
+  scrub: MutableRefObject<ScrubState | null> | undefined,
+  displayed: number,
+  target: number,
+  isLoaded: (index: number) => boolean
+): ScrubState | null {
+  const state = scrub?.current
+  if (!state || state.released) return null
+  if (displayed !== target || state.from !== displayed || !isLoaded(state.to)) return null
+  return state
+}
+
+/** One step of a stepped transition, from one slide to the next on the way to the target */
+export interface TransitionStep {
+  from: number
+  to: number
+  /** Heading to the previous slide rather than the next */
+  backward: boolean
+  /** Speed multiplier for the step, from the jump behaviour */
+  speed: number
+  /** A drag drives the progress */
+  scrubbing: boolean
+  /** Finishing a released drag */
+  settlingScrub: boolean
+  /** Snapping back to `from` after a drag was released early */
+  reversing: boolean
+}
+
+interface UseSteppedTransitionOptions
+  extends Pick<
+    TransitionProps,
+    | 'slides'
+    | 'currentIndex'
+    | 'transitionDuration'
+    | 'direction'
+    | 'animate'
+    | 'jumpBehavior'
+    | 'scrub'
+    | 'textures'
+    | 'onTransitionStart'
+    | 'onTransitionProgress'
+    | 'onTransitionEnd'
+  > {
+  isReady: boolean
+  /** Most steps to play per second, however short the duration or fast the jump */
+  maxStepRate?: number
+  /** Return false while the scene can't be drawn yet, e.g. before its meshes exist */
+  canRender?: () => boolean
+  /** Show a slide at rest */
+  onShow: (index: number) => void
+  /** Set the scene up for a step, drawn at progress 0 */
+  onBegin: (step: TransitionStep) => void
+  /** Draw a step at progress 0 to 1 */
+  onFrame: (progress: number, step: TransitionStep, delta: number) => void
+}
+
+/**
+ * Drives a transition one step at a time toward currentIndex: waits for slides
+ * to load, cuts when animate is false, follows drags and settles or snaps them
+ * back on release, and reports start, progress and end. Transitions only draw.
+ */
+export function useSteppedTransition({
+  slides,
+  currentIndex,
+  transitionDuration,
+  direction,
+  animate = true,
+  jumpBehavior = 'direct',
+  scrub,
+  textures,
+  isReady,
+  maxStepRate = Infinity,
+  canRender,
+  onShow,
+  onBegin,
+  onFrame,
+  onTransitionStart,
+  onTransitionProgress,
+  onTransitionEnd,
+}: UseSteppedTransitionOptions) {
+  const displayedIndexRef = useRef(currentIndex) // The slide currently shown
+  const targetIndexRef = useRef(currentIndex) // The final target slide
+  const animationDirectionRef = useRef<'forward' | 'backward'>('forward')
+  const cutPendingRef = useRef(false) // Jump straight to the target once its texture is loaded
+  const progressRef = useRef(0)
+  const isAnimatingRef = useRef(false)
+  const stepRef = useRef<TransitionStep>({
+    from: currentIndex,
+    to: currentIndex,
+    backward: false,
+    speed: 1,
+    scrubbing: false,
+    settlingScrub: false,
+    reversing: false,
+  })
+
+  const shownRef = useRef(false) // The first slide has been shown
+  const isLoaded = (index: number) => textures[index] !== undefined
+
+  // End a running step if the transition unmounts mid-animation, e.g. when the
+  // style changes, so the slideshow doesn't think it's still transitioning
+  const onTransitionEndRef = useRef(onTransitionEnd)
+  onTransitionEndRef.current = onTransitionEnd
+  useEffect(() => {
+    return () => {
+      if (!isAnimatingRef.current) return
+      isAnimatingRef.current = false
+      onTransitionEndRef.current?.(stepRef.current.from, stepRef.current.to)
+    }
+  }, [])
+
+  // Show the first slide once its texture is ready, then redraw the slide at
+  // rest whenever its texture is replaced, e.g. by a new slides array or edited content
+  const restingTexture = textures[shownRef.current ? displayedIndexRef.current : currentIndex]
+  useEffect(() => {
+    if (!isReady || !restingTexture) return
+
+    if (!shownRef.current) {
+      // Only on the first ready - later texture loads must not reset the displayed slide
+      shownRef.current = true
+      displayedIndexRef.current = currentIndex
+      targetIndexRef.current = currentIndex
+    } else if (isAnimatingRef.current) {
+      return
+    }
+    onShow(displayedIndexRef.current)
+  }, [isReady, restingTexture])
+
+  // Handle slide changes - just update the target, animation loop handles the rest
+  useEffect(() => {
+    if (!isReady || currentIndex === targetIndexRef.current) return
+
+    targetIndexRef.current = currentIndex
+    cutPendingRef.current = !animate
+    animationDirectionRef.current = direction === 'next' ? 'forward' : 'backward'
+  }, [currentIndex, direction, animate, isReady])
+
+  const beginStep = (from: number, to: number, speed: number) => {
+    const backward = animationDirectionRef.current === 'backward'
+    progressRef.current = 0
+    isAnimatingRef.current = true
+    stepRef.current = {
+      from,
+      to,
+      backward,
+      speed,
+      scrubbing: false,
+      settlingScrub: false,
+      reversing: false,
+    }
+    onBegin(stepRef.current)
+    onTransitionStart?.(from, to, backward ? 'prev' : 'next')
+  }
+
+  // Start animating to the next slide, waiting until a loaded one is available
+  const startNextStep = () => {
+    const displayed = displayedIndexRef.current
+    const target = targetIndexRef.current
+    const dir = animationDirectionRef.current
+
+    const nextIndex = getNextStepIndex(displayed, target, dir, slides.length, isLoaded, jumpBehavior)
+    if (nextIndex === null) return
+
+    beginStep(displayed, nextIndex, getStepSpeed(displayed, target, dir, slides.length, jumpBehavior))
+  }
+
+  useFrame((_, delta) => {
+    if (!isReady || (canRender && !canRender())) return
+    const step = stepRef.current
+
+    // Cut straight to the target once it's loaded, ending any running animation
+    if (cutPendingRef.current) {
+      const target = targetIndexRef.current
+      if (!isLoaded(target)) return
+
+      onShow(target)
+      if (isAnimatingRef.current) {
+        isAnimatingRef.current = false
+        onTransitionEnd?.(step.from, step.to)
+      }
+      displayedIndexRef.current = target
+      cutPendingRef.current = false
+      if (step.scrubbing && scrub) scrub.current = null
+      step.scrubbing = false
+      step.settlingScrub = false
+      step.reversing = false
+      return
+    }
+
+    // Start following a drag that begins while idle
+    const scrubToFollow = !isAnimatingRef.current
+      ? getScrubToFollow(scrub, displayedIndexRef.current, targetIndexRef.current, isLoaded)
+      : null
+    if (scrubToFollow) {
+      animationDirectionRef.current = scrubToFollow.direction === 'next' ? 'forward' : 'backward'
+      beginStep(scrubToFollow.from, scrubToFollow.to, 1)
+      stepRef.current.scrubbing = true
+    }
+
+    if (!isAnimatingRef.current && displayedIndexRef.current !== targetIndexRef.current) {
+      startNextStep()
+    }
+
+    if (!isAnimatingRef.current) return
+
+    const running = stepRef.current
+
+    // Once released, settle forward or snap back from wherever the drag left off
+    if (running.scrubbing) {
+      const scrubState = scrub?.current
+      if (scrubState && !scrubState.released) {
+        progressRef.current = scrubState.progress
+      } else {
+        running.scrubbing = false
+        running.settlingScrub = scrubState?.released === 'commit'
+        running.reversing = !running.settlingScrub
+        if (scrub) scrub.current = null
+      }
+    }
+
+    const rate = Math.min((1000 / transitionDuration) * running.speed, maxStepRate)
+    if (running.reversing) {
+      progressRef.current = Math.max(progressRef.current - delta * rate, 0)
+    } else if (!running.scrubbing) {
+      progressRef.current = Math.min(progressRef.current + delta * rate, 1)
+    }
+    onTransitionProgress?.(progressRef.current)
+
+    // A drag that snapped back is over once the scene is back where it started
+    if (running.reversing && progressRef.current <= 0) {
+      isAnimatingRef.current = false
+      running.reversing = false
+      onShow(running.from)
+      onTransitionEnd?.(running.from, running.from)
+      return
+    }
+
+    if (progressRef.current >= 1 && !running.scrubbing) {
+      isAnimatingRef.current = false
+      displayedIndexRef.current = running.to
+      onShow(running.to)
+      onTransitionEnd?.(running.from, running.to)
+
+      // A drag settled forward but the slideshow stayed put (e.g. a controlled owner
+      // didn't take the new index), so head back the way we came
+      if (running.settlingScrub && targetIndexRef.current === running.from) {
+        animationDirectionRef.current =
+          animationDirectionRef.current === 'forward' ? 'backward' : 'forward'
+      }
+      running.settlingScrub = false
+
+      // Carry straight on with the next step of a jump
+      if (displayedIndexRef.current !== targetIndexRef.current) startNextStep()
+      return
+    }
+
+    onFrame(progressRef.current, running, delta)
+  })
+
+  return { displayedIndexRef, isAnimatingRef, stepRef }
+}
@@ -1,4 +1,5 @@
-import { ReactNode, ReactElement } from 'react'
+import { ReactNode, ReactElement, ComponentType, MutableRefObject } from 'react'
+import type { Texture } from 'three'
 
 export interface FocusRingStyles {
   /** Focus ring color. Defaults to '#fff' */
@@ -13,12 +14,126 @@ export type TransitionStyle =
   | 'cascade'
   | 'cube'
   | 'glitch'
+  | 'fade'
+  | 'pageflip'
+  | 'ripple'
+  // Names of custom transitions added with registerTransition or the transitions prop
+  | (string & {})
 
 export interface SlideData {
   id: string | number
   image?: string
+  /** Image shown instead of image when it fails to load */
+  fallbackImage?: string
   content?: ReactNode
   backgroundColor?: string
+  /** Smaller image for the thumbnail strip. Defaults to image */
+  thumbnail?: string
+  /** How long autoplay stays on this slide, in ms. Defaults to autoPlayInterval */
+  duration?: number
+}
+
+/** A loaded slide texture, shared between transitions through the texture cache */
+export interface SlideTexture {
+  texture: Texture
+  /** Width / height of the source image or rendered content */
+  imageAspect: number
+  /** Pixel width of the source image or rendered content */
+  width: number
+  /** Pixel height of the source image or rendered content */
+  height: number
+}
+
+export interface SlideLoadInfo {
+  /** Natural pixel width of the loaded image or rendered content */
+  width: number
+  /** Natural pixel height of the loaded image or rendered content */
+  height: number
+}
+
+export type SlideLoadState = 'idle' | 'loading' | 'loaded' | 'error'
+
+/**
+ * Which slide textures to load: 'eager' loads every slide up front, 'adjacent'
+ * loads the current slide and its immediate neighbours, and a number loads
+ * that many neighbours on each side of the current slide
+ */
+export type PreloadStrategy = 'eager' | 'adjacent' | number
+
+/**
+ * How to animate a jump over several slides: straight to the target, one slide
+ * at a time, or one slide at a time with long runs sped up
+ */
+export type JumpBehavior = 'direct' | 'sequential' | 'sequential-accelerated'
+
+/**
+ * A transition being dragged by the pointer. Written by the slideshow while the
+ * user drags and read by transitions every frame
+ */
+export interface ScrubState {
+  from: number
+  to: number
+  direction: 'next' | 'prev'
+  /** How far the drag has pulled the transition, 0 to 1 */
+  progress: number
+  /** Set on release: settle forward to `to`, or snap back to `from` */
+  released?: 'commit' | 'cancel'
+}
+
+/**
+ * Props every transition component receives from the scene.
+ * Custom transitions are rendered inside the slideshow's R3F Canvas and
+ * must call onReady once they can display the current slide.
+ */
+export interface TransitionProps {
+  slides: SlideData[]
+  /** Index of the slide that should be (or become) visible */
+  currentIndex: number
+  /** Duration of a single transition in milliseconds */
+  transitionDuration: number
+  /** Navigation direction that led to currentIndex */
+  direction: 'next' | 'prev'
+  /** Whether to animate to currentIndex. When false, cut straight to the slide */
+  animate?: boolean
+  /** How to animate a jump over several slides */
+  jumpBehavior?: JumpBehavior
+  /**
+   * Drag in progress, if any. While idle on `from`, follow its progress; once
+   * released, animate on from there and set `scrub.current` to null when settled
+   */
+  scrub?: MutableRefObject<ScrubState | null>
+  /**
+   * Texture for each slide, undefined until it has loaded. Slides load
+   * progressively, so wait for a texture before animating to its slide.
+   * Textures are owned by the shared cache - never dispose them in a transition.
+   */
+  textures: (SlideTexture | undefined)[]
+  /** Load state for each slide. Failed slides get a placeholder texture */
+  loadStates: SlideLoadState[]
+  /** Aspect ratio of the display area */
+  aspectRatio?: number
+  /** Fill the viewport like object-fit: cover */
+  fullscreen?: boolean
+  onReady?: () => void
+  /** Call from useFrame when an animation from one slide to another starts */
+  onTransitionStart?: (from: number, to: number, direction: 'next' | 'prev') => void
+  /** Call from useFrame with the animation's progress, 0 to 1 */
+  onTransitionProgress?: (progress: number) => void
+  /** Call from useFrame when that animation has finished and `to` is fully displayed */
+  onTransitionEnd?: (from: number, to: number) => void
+}
+
+export type TransitionComponent = ComponentType<TransitionProps>
+
+export interface UrlSyncOptions {
+  /** Store the slide in the URL hash (#slide=…) or query string (?slide=…). Defaults to 'hash' */
+  mode?: 'hash' | 'query'
+  /** Parameter name. Defaults to 'slide'; use different names for several slideshows on a page */
+  param?: string
+  /** Identify slides by SlideData.id or by 1-based position. Defaults to 'id' */
+  token?: 'id' | 'index'
+  /** Replace the history entry on each change, or push one so Back returns to the previous slide. Defaults to 'replace' */
+  history?: 'replace' | 'push'
 }
 
 export interface SlideshowProps {
@@ -26,18 +141,59 @@ export interface SlideshowProps {
   style?: TransitionStyle
   autoPlay?: boolean
   autoPlayInterval?: number
+  /** Show the autoplay countdown as a bar along the bottom, or a ring around the active indicator dot */
+  autoPlayProgress?: 'bar' | 'ring'
   showControls?: boolean
   showIndicators?: boolean
+  /** Show indicators as dots or as slide thumbnails. Defaults to 'dots' */
+  indicatorMode?: IndicatorMode
+  /** Lay the thumbnail strip out along the bottom or down the right side. Defaults to 'horizontal' */
+  thumbnailOrientation?: 'horizontal' | 'vertical'
   loop?: boolean
   transitionDuration?: number
   width?: string | number
   height?: string | number
   className?: string
   onSlideChange?: (index: number) => void
+  /** Return false, or a Promise of false, to veto navigating between slides. Guards autoplay and the ref API too */
+  onBeforeSlideChange?: (from: number, to: number) => boolean | void | Promise<boolean | void>
+  /** Called when the animation to a slide starts on screen. Fires per slide when stepping through several */
+  onTransitionStart?: (from: number, to: number, direction: 'next' | 'prev') => void
+  /** Called every frame of a transition with its progress, 0 to 1 */
+  onTransitionProgress?: (progress: number) => void
+  /** Called once the animation has finished and `to` is fully displayed */
+  onTransitionEnd?: (from: number, to: number) => void
+  /** Called when a slide's image or content has loaded, with its natural pixel size */
+  onSlideLoad?: (slide: SlideData, index: number, info: SlideLoadInfo) => void
+  /** Called when a slide's image (or its fallbackImage) fails to load */
+  onSlideLoadError?: (slide: SlideData, index: number, error: Error) => void
   initialSlide?: number
+  /** Controlled slide index. Navigation then only calls onSlideChange; update this prop to change slides */
+  currentIndex?: number
+  /** Keep the current slide in the URL and follow browser back/forward. The URL takes precedence over initialSlide */
+  syncWithUrl?: boolean | UrlSyncOptions
   enableSwipe?: boolean
+  /** Drag the transition with the pointer instead of triggering it on release. Requires enableSwipe */
+  enableScrub?: boolean
+  /** Handle keys while focus is inside the slideshow. Only the focused slideshow responds */
   enableKeyboard?: boolean
+  /** Change or add key bindings, e.g. { j: 'next', k: 'prev', Home: null } */
+  keyMap?: KeyMap
+  /** Change slides with the mouse wheel and trackpad swipes. Scrolling over the slideshow then doesn't scroll the page */
+  enableWheel?: boolean
+  /** Which scroll directions change slides. Defaults to 'both' */
+  wheelAxis?: WheelAxis
   pauseOnHover?: boolean
+  /** Hold autoplay and stop rendering while the tab is hidden or the slideshow is scrolled out of view. Defaults to true */
+  pauseWhenHidden?: boolean
+  /** Swap every transition for a crossfade and leave autoplay off until started. Defaults to 'auto', following prefers-reduced-motion */
+  reducedMotion?: ReducedMotion
+  /** Which slides to load and when. Defaults to 'eager'; the current slide always loads first */
+  preload?: PreloadStrategy
+  /** How to animate jumps over several slides, e.g. from indicator clicks. Defaults to 'direct' */
+  jumpBehavior?: JumpBehavior
+  /** Custom transitions keyed by style name. Takes precedence over registerTransition and built-in styles */
+  transitions?: Record<string, TransitionComponent>
   /** Cascade minTiles (for 'cascade' style) - minimum tiles in shorter dimension, creates square tiles */
   cascadeMinTiles?: number
   /** Aspect ratio for images (for 'cascade' style) - e.g., 16/9, 4/3, 3/2 */
@@ -48,14 +204,30 @@ export interface SlideshowProps {
   glitchScanlines?: number
   /** Glitch film grain intensity (for 'glitch' style) - 0 to 1, default 0.5 */
   glitchGrain?: number
-  /** Fullscreen cover mode - fills container like object-fit: cover (for 'glitch' style) */
+  /** Limit glitch flashing to under 3 a second and cap brightness changes, after WCAG 2.3.1 (for 'glitch' style). Defaults to true */
+  glitchSafeMode?: boolean
+  /** How slides blend (for 'fade' style) - straight across, through fadeColor, or in noisy patches. Defaults to 'dissolve' */
+  fadeMode?: FadeMode
+  /** Colour to dip through (for 'fade' style with fadeMode 'dip') - any CSS colour, default '#000000' */
+  fadeColor?: string
+  /** How far the waves bend the image (for 'ripple' style) - 0 to 1, default 0.5 */
+  rippleAmplitude?: number
+  /** Waves across the slide's height (for 'ripple' style) - default 12 */
+  rippleFrequency?: number
+  /** Where the waves start (for 'ripple' style) - the centre, the last pointer position, or a point. Defaults to 'center' */
+  rippleOrigin?: RippleOrigin
+  /** Fullscreen cover mode - fills container like object-fit: cover (for 'glitch', 'fade', 'pageflip' and 'ripple' styles). Always on in browser fullscreen */
   fullscreen?: boolean
+  /** Called when the slideshow enters or leaves browser fullscreen */
+  onFullscreenChange?: (isFullscreen: boolean) => void
   /** Custom loading spinner element. Set to null to disable, or provide a custom ReactElement */
   loadingSpinner?: ReactElement | null
   /** Custom previous button element. Set to null to hide, or provide a custom ReactElement */
   prevButton?: ReactElement | null
   /** Custom next button element. Set to null to hide, or provide a custom ReactElement */
   nextButton?: ReactElement | null
+  /** Custom fullscreen toggle element. Set to null to hide, or provide a custom ReactElement */
+  fullscreenButton?: ReactElement | null
   /** Custom indicator renderer. Receives index and isActive, returns a ReactElement */
   renderIndicator?: (index: number, isActive: boolean) => ReactElement
   /** Accessible label for the slideshow region. Defaults to "Image slideshow" */
@@ -70,11 +242,61 @@ export interface SlideshowProps {
   focusRingStyles?: FocusRingStyles
 }
 
+/** What a key does: a named action, or a slide index to go to. null turns a default key off */
+export type KeyboardAction =
+  | 'next'
+  | 'prev'
+  | 'first'
+  | 'last'
+  | 'togglePlay'
+  | 'fullscreen'
+  | number
+  | null
+
+/** Keys (as in KeyboardEvent.key, ' ' for Space) mapped to actions. Merged over the default key map */
+export type KeyMap = Record<string, KeyboardAction>
+
+/** How the slide indicators look: dots, or a strip of slide previews */
+export type IndicatorMode = 'dots' | 'thumbnails'
+
+/** Which scroll directions change slides: vertical and horizontal, or just one of them */
+export type WheelAxis = 'horizontal' | 'vertical' | 'both'
+
+/** How the fade style blends one slide into the next */
+export type FadeMode = 'dissolve' | 'dip' | 'noise'
+
+/** Where ripples start: the centre, where the pointer last was over the slide, or a point from 0 to 1 measured from the top left */
+export type RippleOrigin = 'center' | 'pointer' | { x: number; y: number }
+
+/** Whether to reduce motion: follow the user's prefers-reduced-motion setting, or always or never */
+export type ReducedMotion = 'auto' | 'always' | 'never'
+
+export interface GoToOptions {
+  /** Animate to the slide with the current transition style. Set to false to cut straight to it. Defaults to true */
+  animate?: boolean
+}
+
 export interface SlideshowHandle {
   next: () => void
   prev: () => void
-  goTo: (index: number) => void
+  goTo: (index: number, options?: GoToOptions) => void
   getCurrentIndex: () => number
+  /** Total number of slides */
+  getTotal: () => number
+  /** Start autoplay */
+  play: () => void
+  /** Stop autoplay until play() is called */
+  pause: () => void
+  /** Toggle autoplay */
+  toggle: () => void
+  /** Whether autoplay is running. Stays true while temporarily paused on hover */
+  isPlaying: () => boolean
+  /** Whether a transition animation is currently on screen */
+  isTransitioning: () => boolean
+  /** Show the slideshow in browser fullscreen. Must be called from a user gesture such as a click */
+  enterFullscreen: () => Promise<void>
+  exitFullscreen: () => Promise<void>
+  isFullscreen: () => boolean
 }
 
 export interface SlideProps {
@@ -91,8 +313,14 @@ export interface ControlsProps {
   onPrev: () => void
   canGoNext: boolean
   canGoPrev: boolean
+  /** Show the previous and next buttons. Defaults to true */
+  showNavigation?: boolean
   prevButton?: ReactElement | null
   nextButton?: ReactElement | null
+  /** Shown only when onToggleFullscreen is set */
+  fullscreenButton?: ReactElement | null
+  isFullscreen?: boolean
+  onToggleFullscreen?: () => void
   focusRingStyles?: FocusRingStyles
 }
 
@@ -101,5 +329,25 @@ export interface IndicatorsProps {
   current: number
   onSelect: (index: number) => void
   renderIndicator?: (index: number, isActive: boolean) => ReactElement
+  /** Shown around the active indicator, e.g. an autoplay progress ring */
+  activeOverlay?: ReactNode
+  focusRingStyles?: FocusRingStyles
+}
+
+export interface AutoPlayProgressProps {
+  /** How far through the current slide's autoplay countdown, from 0 to 1. Read every frame */
+  getProgress: () => number
+  /** A bar along the bottom edge, or a ring to place around an indicator */
+  variant?: 'bar' | 'ring'
+  /** Ring diameter in px */
+  size?: number
+  color?: string
+}
+
+export interface ThumbnailsProps {
+  slides: SlideData[]
+  current: number
+  onSelect: (index: number) => void
+  orientation?: 'horizontal' | 'vertical'
   focusRingStyles?: FocusRingStyles
 }
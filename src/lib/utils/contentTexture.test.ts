@@ -0,0 +1,90 @@
+import { createElement } from 'react'
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { renderContentToSvg, renderContentToCanvas } from './contentTexture'
+
+type ImageStub = {
+  src: string
+  onload: (() => void) | null
+  onerror: (() => void) | null
+}
+
+// jsdom never loads images, so settle them by hand
+const stubImage = (outcome: 'load' | 'error') => {
+  const images: ImageStub[] = []
+  vi.stubGlobal(
+    'Image',
+    class {
+      onload: (() => void) | null = null
+      onerror: (() => void) | null = null
+      private _src = ''
+      constructor() {
+        images.push(this)
+      }
+      get src() {
+        return this._src
+      }
+      set src(value: string) {
+        this._src = value
+        queueMicrotask(() => (outcome === 'load' ? this.onload?.() : this.onerror?.()))
+      }
+    }
+  )
+  return images
+}
+
+describe('renderContentToSvg', () => {
+  it('wraps the markup in an XHTML div inside a foreignObject', () => {
+    const svg = renderContentToSvg(createElement('h1', null, 'Hello'), 810, 540)
+
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www\.w3\.org\/2000\/svg"/)
+    expect(svg).toContain('<foreignObject width="100%" height="100%">')
+    expect(svg).toContain('<div xmlns="http://www.w3.org/1999/xhtml"')
+    expect(svg).toContain('<h1>Hello</h1>')
+    expect(svg).toMatch(/<\/div><\/foreignObject><\/svg>$/)
+  })
+
+  it('lays content out in CSS pixels and scales it to the canvas size', () => {
+    const svg = renderContentToSvg('Text', 810, 540, 2)
+
+    expect(svg).toContain('width="1620" height="1080" viewBox="0 0 810 540"')
+    expect(svg).toContain('width:810px;height:540px')
+  })
+
+  it('escapes text content', () => {
+    const svg = renderContentToSvg('a < b & c', 100, 100)
+
+    expect(svg).toContain('a &lt; b &amp; c')
+  })
+})
+
+describe('renderContentToCanvas', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('draws the SVG into a canvas at the pixel ratio', async () => {
+    const drawImage = vi.fn()
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue({
+      fillRect: vi.fn(),
+      drawImage,
+    } as unknown as CanvasRenderingContext2D)
+    const images = stubImage('load')
+
+    const canvas = await renderContentToCanvas('Slide', 3 / 2)
+
+    expect(images[0].src).toMatch(/^data:image\/svg\+xml;charset=utf-8,/)
+    expect(decodeURIComponent(images[0].src)).toContain('Slide')
+    expect(canvas.width).toBe(1620)
+    expect(canvas.height).toBe(1080)
+    expect(drawImage).toHaveBeenCalledWith(images[0], 0, 0, 1620, 1080)
+  })
+
+  it('rejects when the markup fails to render', async () => {
+    stubImage('error')
+
+    await expect(renderContentToCanvas('Broken', 1)).rejects.toThrow(
+      'Failed to render slide content'
+    )
+  })
+})
@@ -0,0 +1,109 @@
+import { createElement, ReactNode } from 'react'
+import { renderToStaticMarkup } from 'react-dom/server'
+
+// Logical height (in CSS pixels) content is laid out at before rasterizing
+const CONTENT_BASE_HEIGHT = 540
+// Rasterize at 2x so text stays crisp when the plane is scaled up
+const CONTENT_PIXEL_RATIO = 2
+
+const fillCanvas = (canvas: HTMLCanvasElement, color: string) => {
+  const ctx = canvas.getContext('2d')!
+  ctx.fillStyle = color
+  ctx.fillRect(0, 0, canvas.width, canvas.height)
+  return ctx
+}
+
+// 53-bit string hash (cyrb53), enough to tell slide markup apart in cache keys
+const hashString = (value: string) => {
+  let h1 = 0xdeadbeef
+  let h2 = 0x41c6ce57
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i)
+    h1 = Math.imul(h1 ^ ch, 2654435761)
+    h2 = Math.imul(h2 ^ ch, 1597334677)
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36)
+}
+
+/**
+ * A key for a slide's content that changes whenever its rendered markup does,
+ * so identical content can share a texture and edited content gets a new one.
+ */
+export function getContentKey(content: ReactNode): string {
+  return hashString(renderToStaticMarkup(createElement('div', null, content)))
+}
+
+/**
+ * Wrap a slide's React content in an SVG document whose foreignObject lays it
+ * out at `width` x `height` CSS pixels and scales it to the canvas size.
+ */
+export function renderContentToSvg(
+  content: ReactNode,
+  width: number,
+  height: number,
+  pixelRatio = CONTENT_PIXEL_RATIO
+): string {
+  const markup = renderToStaticMarkup(
+    createElement(
+      'div',
+      {
+        xmlns: 'http://www.w3.org/1999/xhtml',
+        style: {
+          width,
+          height,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          color: '#fff',
+          fontFamily: 'system-ui, -apple-system, sans-serif',
+          boxSizing: 'border-box',
+          overflow: 'hidden',
+        },
+      },
+      content
+    )
+  )
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width * pixelRatio}" height="${height * pixelRatio}" viewBox="0 0 ${width} ${height}">` +
+    `<foreignObject width="100%" height="100%">${markup}</foreignObject>` +
+    `</svg>`
+  )
+}
+
+/**
+ * Rasterize a slide's React content into a canvas so it can be used as a texture.
+ *
+ * The content is rendered to static markup and drawn through an SVG foreignObject,
+ * so page stylesheets and class names do not apply - style content inline. Remote
+ * images inside the content taint the canvas; inline them as data URLs instead.
+ * Rejects when the browser can't draw the markup.
+ */
+export function renderContentToCanvas(
+  content: ReactNode,
+  aspectRatio: number,
+  backgroundColor = '#000'
+): Promise<HTMLCanvasElement> {
+  const width = Math.round(CONTENT_BASE_HEIGHT * aspectRatio)
+  const height = CONTENT_BASE_HEIGHT
+  const svg = renderContentToSvg(content, width, height)
+
+  return new Promise((resolve, reject) => {
+    const img = new Image()
+    img.onload = () => {
+      const canvas = document.createElement('canvas')
+      canvas.width = width * CONTENT_PIXEL_RATIO
+      canvas.height = height * CONTENT_PIXEL_RATIO
+      const ctx = fillCanvas(canvas, backgroundColor)
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height)
+      resolve(canvas)
+    }
+    img.onerror = () => {
+      // Usually markup the browser can't parse as XHTML
+      reject(new Error('Failed to render slide content'))
+    }
+    img.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`
+  })
+}
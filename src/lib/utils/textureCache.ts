@@ -0,0 +1,126 @@
+import { ReactNode } from 'react'
+import * as THREE from 'three'
+import { SlideTexture } from '../types'
+import { renderContentToCanvas } from './contentTexture'
+
+interface CacheEntry {
+  promise: Promise<SlideTexture>
+  result: SlideTexture | null
+  refs: number
+}
+
+// Shared across every slideshow on the page so a URL is only downloaded and
+// uploaded once, no matter how many transitions or instances display it
+const cache = new Map<string, CacheEntry>()
+
+const PLACEHOLDER_SIZE = 64
+
+/**
+ * Get a texture from the cache, loading it with `load` on first use.
+ * Every call that resolves must be balanced with releaseTexture(key); a failed
+ * load is dropped from the cache and must not be released.
+ */
+export function acquireTexture(
+  key: string,
+  load: () => Promise<SlideTexture>
+): Promise<SlideTexture> {
+  let entry = cache.get(key)
+
+  if (!entry) {
+    const newEntry: CacheEntry = { promise: load(), result: null, refs: 0 }
+    newEntry.promise.then(
+      (result) => {
+        newEntry.result = result
+      },
+      () => {
+        // Don't cache failures so the next acquire retries
+        if (cache.get(key) === newEntry) cache.delete(key)
+      }
+    )
+    cache.set(key, newEntry)
+    entry = newEntry
+  }
+
+  entry.refs++
+  return entry.promise
+}
+
+export function releaseTexture(key: string) {
+  const entry = cache.get(key)
+  if (!entry) return
+
+  entry.refs--
+  if (entry.refs > 0) return
+
+  // Defer disposal so a release immediately followed by an acquire of the
+  // same key (e.g. effects re-running for a new slides array) keeps the texture
+  queueMicrotask(() => {
+    if (entry.refs > 0 || cache.get(key) !== entry) return
+    cache.delete(key)
+    entry.promise.then(
+      (result) => result.texture.dispose(),
+      () => {}
+    )
+  })
+}
+
+/** Synchronously read an already-loaded texture, if any */
+export function peekTexture(key: string): SlideTexture | null {
+  return cache.get(key)?.result ?? null
+}
+
+export function loadImageTexture(url: string): Promise<SlideTexture> {
+  return new Promise((resolve, reject) => {
+    const img = new Image()
+    img.crossOrigin = 'anonymous'
+    img.onload = () => {
+      const texture = new THREE.Texture(img)
+      texture.needsUpdate = true
+      texture.colorSpace = THREE.SRGBColorSpace
+      resolve({
+        texture,
+        imageAspect: img.width / img.height,
+        width: img.naturalWidth,
+        height: img.naturalHeight,
+      })
+    }
+    img.onerror = () => {
+      reject(new Error(`Failed to load image: ${url}`))
+    }
+    img.src = url
+  })
+}
+
+export function createColorTexture(color: string): Promise<SlideTexture> {
+  const canvas = document.createElement('canvas')
+  canvas.width = PLACEHOLDER_SIZE
+  canvas.height = PLACEHOLDER_SIZE
+  const ctx = canvas.getContext('2d')!
+  ctx.fillStyle = color
+  ctx.fillRect(0, 0, PLACEHOLDER_SIZE, PLACEHOLDER_SIZE)
+  const texture = new THREE.CanvasTexture(canvas)
+  texture.colorSpace = THREE.SRGBColorSpace
+  return Promise.resolve({
+    texture,
+    imageAspect: 1,
+    width: PLACEHOLDER_SIZE,
+    height: PLACEHOLDER_SIZE,
+  })
+}
+
+export function createContentTexture(
+  content: ReactNode,
+  aspectRatio: number,
+  backgroundColor?: string
+): Promise<SlideTexture> {
+  return renderContentToCanvas(content, aspectRatio, backgroundColor).then((canvas) => {
+    const texture = new THREE.CanvasTexture(canvas)
+    texture.colorSpace = THREE.SRGBColorSpace
+    return {
+      texture,
+      imageAspect: canvas.width / canvas.height,
+      width: canvas.width,
+      height: canvas.height,
+    }
+  })
+}